@@ -1,11 +1,16 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { FlowOrchestrator, type FlowConfig, type TransitionExplanation } from '@xflows/core';
 
 interface StateInspectorProps {
   flow: any;
+  // Live context of the running flow (default: the flow's initial context)
+  context?: Record<string, unknown>;
 }
 
-export function StateInspector({ flow }: StateInspectorProps) {
-  const [selectedState, setSelectedState] = useState<string | null>(flow?.initial || null);
+const NAVIGATION_EVENTS = ['onNext', 'onBack', 'onError', 'onCancel'];
+
+export function StateInspector({ flow, context }: StateInspectorProps) {
+  const [selectedState, setSelectedState] = useState<string | null>(flow?.initial || flow?.initialStep || null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set(['states']));
 
   const toggleNode = (nodeKey: string) => {
@@ -18,6 +23,23 @@ export function StateInspector({ flow }: StateInspectorProps) {
     setExpandedNodes(newExpanded);
   };
 
+  const orchestrator = useMemo(() => new FlowOrchestrator(), []);
+
+  // Branches of each navigation event of the selected step, evaluated against the live context
+  const explanations = useMemo((): TransitionExplanation[] => {
+    if (!Array.isArray(flow?.steps) || !selectedState) return [];
+    const flowConfig = flow as FlowConfig;
+
+    return NAVIGATION_EVENTS.flatMap(event => {
+      try {
+        const explanation = orchestrator.explainTransition(flowConfig, selectedState, event, context ?? flowConfig.context);
+        return explanation.branches.length > 0 ? [explanation] : [];
+      } catch {
+        return [];
+      }
+    });
+  }, [orchestrator, flow, selectedState, context]);
+
   const renderObjectNode = (key: string, value: any, path: string = '', level: number = 0) => {
     const nodeKey = path ? `${path}.${key}` : key;
     const hasChildren = typeof value === 'object' && value !== null;
@@ -76,12 +98,27 @@ export function StateInspector({ flow }: StateInspectorProps) {
         <h5 className="font-medium text-gray-700 mb-2">🔄 Transitions</h5>
         <div className="space-y-2">
           {Object.entries(state.on).map(([event, target]) => {
-            const targetStr = Array.isArray(target) ? target.join(' | ') : String(target);
+            // Branches are tried in order; the first one whose guard passes is taken
+            const branches = (Array.isArray(target) ? target : [target]).map((branch: unknown) =>
+              typeof branch === 'object' && branch !== null
+                ? {
+                    target: String((branch as { target?: unknown }).target),
+                    guard: (branch as { guard?: string }).guard
+                  }
+                : { target: String(branch), guard: undefined }
+            );
             return (
-              <div key={event} className="flex items-center p-2 bg-gray-50 rounded border">
-                <span className="text-blue-600 font-medium">{event}</span>
-                <span className="mx-2 text-gray-400">→</span>
-                <span className="text-green-600 font-mono">{targetStr}</span>
+              <div key={event} className="p-2 bg-gray-50 rounded border">
+                {branches.map((branch, index) => (
+                  <div key={`${branch.target}:${branch.guard ?? 'default'}`} className="flex items-center">
+                    <span className="text-blue-600 font-medium">{index === 0 ? event : ''}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <span className="text-green-600 font-mono">{branch.target}</span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {branch.guard ? `if ${branch.guard}` : branches.length > 1 ? 'default' : ''}
+                    </span>
+                  </div>
+                ))}
               </div>
             ) as JSX.Element;
           })}
@@ -90,6 +127,56 @@ export function StateInspector({ flow }: StateInspectorProps) {
     );
   };
 
+  const renderBranches = () => {
+    if (!Array.isArray(flow?.steps)) return null;
+
+    return (
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">🔀 Step Branches</h3>
+        <div className="flex flex-wrap gap-1 mb-2">
+          {(flow as FlowConfig).steps.map(step => (
+            <button
+              key={step.id}
+              type="button"
+              onClick={() => setSelectedState(step.id)}
+              className={`px-2 py-1 rounded text-xs ${
+                selectedState === step.id ? 'bg-blue-200 text-blue-900' : 'bg-gray-200 text-gray-700'
+              }`}
+            >
+              {step.id}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2">
+          {explanations.length === 0 && <p className="text-sm text-gray-500">No transitions from this step</p>}
+          {explanations.map(explanation => (
+            <div key={explanation.event} className="p-2 bg-gray-50 rounded border">
+              {explanation.branches.map(branch => {
+                // The first branch whose guard passes for the context is the one taken
+                const taken = explanation.taken?.index === branch.index;
+                return (
+                  <div
+                    key={branch.index}
+                    className={`flex items-center rounded px-1 ${taken ? 'bg-green-100 font-medium' : ''}`}
+                  >
+                    <span className="text-blue-600 font-medium">{branch.index === 0 ? explanation.event : ''}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <span className="text-green-600 font-mono">{branch.target}</span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {branch.guard ? `if ${branch.guard} (${branch.matched ? 'passes' : 'fails'})` : 'default'}
+                    </span>
+                    {taken && <span className="ml-2 text-xs text-green-700">✓ taken</span>}
+                  </div>
+                );
+              })}
+              {!explanation.taken && <div className="text-xs text-red-600">No branch is taken for this context</div>}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const renderStateDetails = () => {
     if (!selectedState || !flow?.states?.[selectedState]) {
       return (
@@ -244,6 +331,8 @@ export function StateInspector({ flow }: StateInspectorProps) {
 
         {renderStateDiagram()}
 
+        {renderBranches()}
+
         {/* State Details */}
         <div>
           <h3 className="text-sm font-medium text-gray-700 mb-2">⚙️ State Details</h3>
@@ -257,7 +346,7 @@ export function StateInspector({ flow }: StateInspectorProps) {
           <h3 className="text-sm font-medium text-gray-700 mb-2">📋 Context</h3>
           <div className="bg-white border rounded p-2 max-h-32 overflow-auto">
             <pre className="text-xs text-gray-600">
-              {JSON.stringify(flow.context || {}, null, 2)}
+              {JSON.stringify(context ?? flow.context ?? {}, null, 2)}
             </pre>
           </div>
         </div>
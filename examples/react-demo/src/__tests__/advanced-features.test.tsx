@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest';
 import { DefaultPluginManager } from '@xflows/plugins';
 import { HttpActionPlugin, type HttpActionConfig } from '@xflows/plugin-http';
-import { cache } from '@xflows/core';
+import { applyPatches, cache } from '@xflows/core';
 
 // Test data types
 interface MockResponse {
@@ -52,12 +52,12 @@ describe('XFlows Advanced Features Integration Tests', () => {
 
       // First call - should make HTTP request
       const result1 = await httpPlugin.execute(config, context, event);
-      expect(result1).toEqual(mockResponse);
+      expect(result1.data).toEqual(mockResponse);
       expect(mockFetch).toHaveBeenCalledTimes(1);
 
       // Second call - should use cache
       const result2 = await httpPlugin.execute(config, context, event);
-      expect(result2).toEqual(mockResponse);
+      expect(result2.data).toEqual(mockResponse);
       expect(mockFetch).toHaveBeenCalledTimes(1); // Still 1, not 2
     });
 
@@ -105,7 +105,7 @@ describe('XFlows Advanced Features Integration Tests', () => {
       const event: Record<string, unknown> = {};
 
       const result = await httpPlugin.execute(config, context, event);
-      expect(result).toEqual(mockResponse);
+      expect(result.data).toEqual(mockResponse);
     });
 
     it('should throw error when status validation fails', async () => {
@@ -180,17 +180,14 @@ describe('XFlows Advanced Features Integration Tests', () => {
       const context: Record<string, unknown> = {};
       const event: Record<string, unknown> = {};
 
-      await httpPlugin.execute(config, context, event);
+      const result = await httpPlugin.execute(config, context, event);
       
-      expect(context).toEqual({
-        session: {
-          verificationStatus: 'verified',
-          verificationCode: 'ABC123'
-        },
-        user: {
-          id: 789
-        }
-      });
+      expect(result.patches).toEqual([
+        { op: 'set', path: 'session.verificationStatus', value: 'verified' },
+        { op: 'set', path: 'session.verificationCode', value: 'ABC123' },
+        { op: 'set', path: 'user.id', value: 789 }
+      ]);
+      expect(context).toEqual({});
     });
 
     it('should handle retry logic with exponential backoff', async () => {
@@ -220,7 +217,7 @@ describe('XFlows Advanced Features Integration Tests', () => {
       const event: Record<string, unknown> = {};
 
       const result = await httpPlugin.execute(config, context, event);
-      expect(result).toEqual(mockResponse);
+      expect(result.data).toEqual(mockResponse);
       expect(mockFetch).toHaveBeenCalledTimes(3);
     });
 
@@ -387,10 +384,10 @@ describe('XFlows Advanced Features Integration Tests', () => {
 
       const result = await httpPlugin.execute(config, context, event);
       
-      expect(result).toEqual(mockResponse);
+      expect(result.data).toEqual(mockResponse);
 
       // Verify mapping worked
-      expect(context).toEqual({
+      expect(applyPatches(context, result.patches)).toEqual({
         userId: 123,
         userName: 'John Doe',
         session: {
@@ -437,7 +434,7 @@ describe('XFlows Advanced Features Integration Tests', () => {
       const event: Record<string, unknown> = {};
 
       const result = await httpPlugin.execute(config, context, event);
-      expect(result).toBeNull(); // Should return null on error with ignore strategy
+      expect(result).toEqual({ data: null, patches: [] }); // No data and no context changes on error with ignore strategy
     });
 
     it('should throw error with onError: fail', async () => {
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fromPromise } from 'xstate';
 import { FlowOrchestrator } from '../engine/flow-orchestrator';
 // Note: Plugin imports will be mocked for now
 // import { PluginManager } from '@xflows/plugins';
@@ -29,12 +30,20 @@ const mockHttpActorPlugin = {
   execute: vi.fn()
 };
 
+// Plugins the flows below declare, by id
+const loadedPlugins: Record<string, unknown> = {
+  httpClient: { ...mockHttpActorPlugin, id: 'httpClient', createActor: () => fromPromise(async () => ({})) },
+  httpAction: { ...mockHttpActionPlugin, id: 'httpAction' },
+  'http-action': mockHttpActionPlugin
+};
+
 describe('FlowOrchestrator + Plugin Integration Tests', () => {
   let orchestrator: FlowOrchestrator;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    orchestrator = new FlowOrchestrator();
+    mockPluginManager.getPlugin.mockImplementation((pluginId: string) => loadedPlugins[pluginId]);
+    orchestrator = new FlowOrchestrator().usePluginManager(mockPluginManager);
     
     // Setup mocks
     mockPluginManager.register.mockClear();
@@ -528,11 +537,8 @@ describe('FlowOrchestrator + Plugin Integration Tests', () => {
         ]
       };
 
-      // Should still create machine (plugin validation happens at runtime)
-      expect(() => {
-        const machine = orchestrator.orchestrate(flowWithInvalidPlugin);
-        expect(machine).toBeDefined();
-      }).not.toThrow();
+      // Plugins the flow declares must be loaded
+      expect(() => orchestrator.orchestrate(flowWithInvalidPlugin)).toThrow(/Plugin "invalidPlugin" is not loaded/);
     });
 
     it('should handle missing required flow fields', () => {
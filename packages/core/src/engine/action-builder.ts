@@ -0,0 +1,195 @@
+/**
+ * Action Builder
+ * Builds XState action implementations for the named actions in `FlowConfig.actions`
+ *
+ * Built-in types (assign, log, analytics, tool) are implemented here; any other type is
+ * delegated to a handler registered for it, or to the action plugin of that id. Handlers update
+ * context by returning a `ContextPatchResult`, applied immediately when returned
+ * synchronously and through PATCH_EVENT once a returned promise resolves. Tool actions
+ * map the result of their tool into context through PATCH_EVENT too.
+ */
+
+import {
+  enqueueActions,
+  type ActionFunction,
+  type AnyEventObject,
+  type EventObject,
+  type NonReducibleUnknown,
+  type ParameterizedObject,
+  type ProvidedActor,
+} from 'xstate';
+import type { ActionConfig, FlowConfig } from '../types';
+import type { TemplateParser } from '../parser/template-parser';
+import { ContextPatcher, isContextPatchResult, PATCH_EVENT } from '../utils/context-patch';
+import { ConfigurationError } from './errors';
+import type { PluginResolver } from './plugin-resolver';
+import type { ToolRunner } from './tool-runner';
+
+/**
+ * Handler for custom action types, mirroring `ActionPlugin.execute`
+ */
+export type ActionHandler = (
+  config: Record<string, unknown>,
+  context: Record<string, unknown>,
+  event: Record<string, unknown>
+) => unknown;
+
+/**
+ * XState action implementation built for a flow machine
+ */
+export type FlowAction = ActionFunction<
+  Record<string, unknown>,
+  AnyEventObject,
+  AnyEventObject,
+  NonReducibleUnknown,
+  ProvidedActor,
+  ParameterizedObject,
+  ParameterizedObject,
+  string,
+  EventObject
+>;
+
+const BUILT_IN_ACTION_TYPES = ['assign', 'log', 'analytics', 'tool'];
+
+export class ActionBuilder {
+  private templateParser: TemplateParser;
+  private patcher: ContextPatcher;
+  private handlers = new Map<string, ActionHandler>();
+  private plugins?: PluginResolver;
+  private tools?: ToolRunner;
+
+  constructor(templateParser: TemplateParser, patcher = new ContextPatcher(), plugins?: PluginResolver, tools?: ToolRunner) {
+    this.templateParser = templateParser;
+    this.patcher = patcher;
+    this.plugins = plugins;
+    this.tools = tools;
+  }
+
+  /**
+   * Register a handler for a custom action type
+   */
+  register(type: string, handler: ActionHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Check whether an action type can be built
+   */
+  has(type: string): boolean {
+    return BUILT_IN_ACTION_TYPES.includes(type) || this.handlers.has(type) || Boolean(this.plugins?.get(type, 'action'));
+  }
+
+  /**
+   * Build the XState action implementations map for a flow
+   */
+  build(flowConfig: FlowConfig): Record<string, FlowAction> {
+    const actions: Record<string, FlowAction> = {};
+
+    for (const [id, action] of Object.entries(flowConfig.actions || {})) {
+      actions[id] = this.createAction(id, action);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Create XState action for a single action configuration
+   */
+  private createAction(id: string, action: ActionConfig): FlowAction {
+    switch (action.type) {
+      case 'assign':
+        if (!action.target) {
+          throw new ConfigurationError(`Assign action "${id}" must have a "target" field`, { id, action });
+        }
+        return this.patcher.createAction(`action:${id}`, (context, event) => [{
+          op: action.operation || 'set',
+          path: action.target as string,
+          value: this.templateParser.parseValue(action.value, { context, event })
+        }]) as FlowAction;
+
+      case 'log':
+        return ({ context, event }: { context: Record<string, unknown>; event: Record<string, unknown> }) => {
+          const message = this.templateParser.parse(action.message || `Action ${id} executed`, { context, event });
+          console[action.level || 'info'](`[action] ${message}`, { context, event });
+        };
+
+      case 'analytics':
+        return ({ context, event }: { context: Record<string, unknown>; event: Record<string, unknown> }) => {
+          // Analytics tracking - would integrate with analytics service
+          console.info(`[Analytics] ${action.event}`, this.templateParser.parseValue(action.data, { context, event }));
+        };
+
+      case 'tool':
+        return this.createToolAction(id, action);
+
+      default:
+        return this.createHandlerAction(id, action);
+    }
+  }
+
+  /**
+   * Create XState action calling a tool plugin and mapping its result into context once it resolves
+   */
+  private createToolAction(id: string, action: ActionConfig): FlowAction {
+    const { tool } = action;
+    if (!tool) {
+      throw new ConfigurationError(`Tool action "${id}" must have a "tool" field`, { id, action });
+    }
+    const tools = this.tools;
+    if (!tools) {
+      throw new ConfigurationError(`Tool action "${id}" cannot run: no tool runner is available`, { id, action });
+    }
+
+    const source = `action:${id}`;
+
+    return (({ context, event, self }) => {
+      tools
+        .run({ ...action, tool }, { context, event })
+        .then(result => {
+          const patches = tools.createPatches(action, result);
+          if (patches.length > 0) {
+            self.send({ type: PATCH_EVENT, source, patches });
+          }
+        })
+        .catch(error => console.warn(`Action ${id} failed:`, error));
+    }) as FlowAction;
+  }
+
+  /**
+   * Create XState action that delegates to a registered handler or an action plugin
+   */
+  private createHandlerAction(id: string, action: ActionConfig): FlowAction {
+    const handler = this.handlers.get(action.type) || this.plugins?.action(action.type);
+    if (!handler) {
+      throw new ConfigurationError(
+        `Action "${id}" has unknown type "${action.type}" and no handler or plugin is registered for it`,
+        { id, action }
+      );
+    }
+
+    const config = action.config && typeof action.config === 'object'
+      ? (action.config as Record<string, unknown>)
+      : (action as unknown as Record<string, unknown>);
+
+    const source = `action:${id}`;
+
+    return enqueueActions(({ context, event, self, enqueue }) => {
+      try {
+        const result = handler(config, context, event);
+        if (result instanceof Promise) {
+          result
+            .then(resolved => {
+              if (isContextPatchResult(resolved) && resolved.patches.length > 0) {
+                self.send({ type: PATCH_EVENT, source, patches: resolved.patches });
+              }
+            })
+            .catch(error => console.warn(`Action ${id} failed:`, error));
+        } else if (isContextPatchResult(result) && result.patches.length > 0) {
+          enqueue.assign(({ context: current, self: actor }) => this.patcher.apply(actor, source, current, result.patches));
+        }
+      } catch (error) {
+        console.warn(`Action ${id} failed:`, error);
+      }
+    }) as FlowAction;
+  }
+}
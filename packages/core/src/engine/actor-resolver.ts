@@ -0,0 +1,121 @@
+/**
+ * Actor Resolver
+ * Resolves step `invoke.src` references to XState actor logic
+ *
+ * Resolution order:
+ * 1. Actors declared in `FlowConfig.actors`; types other than `fromPromise` name actor plugins
+ * 2. Actors registered on the orchestrator
+ * 3. `tool:<id>`: the tool plugin of that id, called with the invoke input as parameters
+ * 4. The actor plugin whose id is the `src`
+ *
+ * Sources that resolve to none of these are configuration errors, reported when the flow is orchestrated.
+ */
+
+import { fromPromise, type AnyActorLogic } from 'xstate';
+import type { ActorConfig, FlowConfig } from '../types';
+import type { TemplateParser } from '../parser/template-parser';
+import type { HttpClient } from '../utils/http-client';
+import { ConfigurationError } from './errors';
+import type { PluginResolver } from './plugin-resolver';
+import { toolIdOf, type ToolRunner } from './tool-runner';
+
+export class ActorResolver {
+  private templateParser: TemplateParser;
+  private httpClient: HttpClient;
+  private actors = new Map<string, AnyActorLogic>();
+  private plugins?: PluginResolver;
+  private tools?: ToolRunner;
+
+  constructor(templateParser: TemplateParser, httpClient: HttpClient, plugins?: PluginResolver, tools?: ToolRunner) {
+    this.templateParser = templateParser;
+    this.httpClient = httpClient;
+    this.plugins = plugins;
+    this.tools = tools;
+  }
+
+  /**
+   * Register actor logic under an invoke `src` name
+   */
+  register(src: string, logic: AnyActorLogic): void {
+    this.actors.set(src, logic);
+  }
+
+  /**
+   * Check whether a `src` can be resolved
+   */
+  has(src: string, flowConfig: FlowConfig): boolean {
+    if (flowConfig.actors?.[src] || this.actors.has(src)) {
+      return true;
+    }
+
+    const toolId = toolIdOf(src);
+    return toolId !== undefined ? Boolean(this.tools?.has(toolId)) : Boolean(this.plugins?.get(src, 'actor'));
+  }
+
+  /**
+   * Check whether actors of a `FlowConfig.actors` type can be created
+   */
+  hasType(type: string): boolean {
+    return type === 'fromPromise' || Boolean(this.plugins?.get(type, 'actor'));
+  }
+
+  /**
+   * Resolve actor logic for an invoke `src`
+   */
+  resolve(src: string, flowConfig: FlowConfig): AnyActorLogic {
+    const actorConfig = flowConfig.actors?.[src];
+    if (actorConfig) {
+      return this.createConfiguredActor(src, actorConfig);
+    }
+
+    const registered = this.actors.get(src);
+    if (registered) {
+      return registered;
+    }
+
+    const toolId = toolIdOf(src);
+    if (toolId !== undefined && this.tools) {
+      return this.tools.createActor(toolId);
+    }
+
+    const logic = this.plugins?.actor(src, { src });
+    if (!logic) {
+      throw new ConfigurationError(`Actor "${src}" is not declared, registered or loaded as a plugin`, { src });
+    }
+    return logic;
+  }
+
+  /**
+   * Create actor logic from a `FlowConfig.actors` entry, templated against the invoke input
+   */
+  private createConfiguredActor(src: string, actorConfig: ActorConfig): AnyActorLogic {
+    switch (actorConfig.type) {
+      case 'fromPromise':
+        return fromPromise(async ({ input }: { input: unknown }) => {
+          const data = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+          const body = actorConfig.body !== undefined
+            ? this.templateParser.parseValue(actorConfig.body, data)
+            : data.body;
+
+          return this.httpClient.execute({
+            url: actorConfig.endpoint || '{{endpoint}}',
+            method: actorConfig.method || (data.method as string | undefined),
+            headers: data.headers as Record<string, string> | undefined,
+            body,
+          }, data);
+        });
+      default: {
+        const { type, config, ...options } = actorConfig;
+        const pluginConfig = config && typeof config === 'object' ? (config as Record<string, unknown>) : options;
+        const logic = this.plugins?.actor(type, { ...pluginConfig, src });
+        if (!logic) {
+          throw new ConfigurationError(
+            `Unsupported actor type "${type}" for actor "${src}": no actor plugin "${type}" is loaded`,
+            { src, actorConfig }
+          );
+        }
+        return logic;
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Error Policy
+ * Resolves how a flow handles errors from hooks, invoked actors and sub-flows
+ *
+ * Errors move the flow to the error step (`FlowConfig.errorHandling.step`, else the flow's
+ * own `error` step if it has one, else the built-in `error` state), after storing a
+ * `FlowError` in context. RETRY from the error step re-enters the step that failed,
+ * replaying the event that originally entered it, or restarts the flow.
+ */
+
+import { assign, enqueueActions, raise, type AnyActorRef, type EventObject } from 'xstate';
+import type { FlowConfig, FlowError, Step } from '../types';
+import { getByPath, setByPath } from '../utils/object-path';
+
+/**
+ * Id of the built-in error state, reserved unless the flow declares its own error step
+ */
+export const ERROR_STATE_ID = 'error';
+
+/**
+ * Internal event raised by RETRY, carrying the failed step's original entry event
+ */
+export const RETRY_EVENT = 'xflows.retry';
+
+type ActionArgs = { context: Record<string, unknown>; event: EventObject; self: AnyActorRef };
+
+/**
+ * Called with every error stored in context, after it is stored
+ */
+export type ErrorListener = (error: FlowError, args: ActionArgs) => void;
+
+export class ErrorPolicy {
+  private config: FlowConfig;
+  private listener?: ErrorListener;
+  // Event that entered each step that can fail, per running actor
+  private entryEvents = new WeakMap<AnyActorRef, Map<string, EventObject>>();
+
+  constructor(config: FlowConfig, listener?: ErrorListener) {
+    this.config = config;
+    this.listener = listener;
+  }
+
+  /**
+   * Context path where the current error is stored
+   */
+  get contextPath(): string {
+    return this.config.errorHandling?.contextPath || 'error';
+  }
+
+  /**
+   * Whether the machine needs the built-in error state
+   */
+  usesBuiltInState(): boolean {
+    return !this.config.errorHandling?.step && !hasStep(this.config.steps, ERROR_STATE_ID);
+  }
+
+  /**
+   * Step handling errors raised while in the given step
+   */
+  targetFor(step?: Step): string {
+    return step?.errorHandling?.step || this.config.errorHandling?.step || ERROR_STATE_ID;
+  }
+
+  /**
+   * Every step that handles errors, flow-level and per-step overrides
+   */
+  errorStepIds(steps: Step[]): string[] {
+    return [...new Set([this.targetFor(), ...steps.map(step => this.targetFor(step))])];
+  }
+
+  /**
+   * Whether a step can fail (runs hooks, invokes an actor or embeds a sub-flow)
+   */
+  canFail(step: Step): boolean {
+    return Boolean(step.invoke || step.subFlow || step.hooks?.before?.length || step.hooks?.after?.length);
+  }
+
+  /**
+   * Create entry action remembering the event that entered a step, to replay it on RETRY
+   */
+  createEntryTracker(stepId: string) {
+    return ({ event, self }: ActionArgs) => {
+      const events = this.entryEvents.get(self) || new Map<string, EventObject>();
+      events.set(stepId, event);
+      this.entryEvents.set(self, events);
+    };
+  }
+
+  /**
+   * Create action storing the error carried by the current event in context
+   */
+  createRecordAction(stepId?: string) {
+    const { listener } = this;
+    if (!listener) {
+      return assign(({ context, event, self }: ActionArgs) =>
+        setByPath(context, this.contextPath, this.toFlowError(event, stepId, self))
+      );
+    }
+
+    return enqueueActions(({ event, self, enqueue }) => {
+      const error = this.toFlowError(event, stepId, self);
+      enqueue.assign(({ context }) => setByPath(context, this.contextPath, error));
+      enqueue(({ context }) => listener(error, { context, event, self }));
+    });
+  }
+
+  /**
+   * Create RETRY actions: replay the failed step's entry event and clear the stored error
+   */
+  createRetryActions() {
+    return [
+      raise(({ context }: ActionArgs) => {
+        const error = getByPath(context, this.contextPath) as FlowError | undefined;
+        return { ...(error?.input || {}), type: RETRY_EVENT, retryStepId: error?.stepId };
+      }),
+      assign(({ context }: ActionArgs) => setByPath(context, this.contextPath, undefined))
+    ];
+  }
+
+  /**
+   * Create the transitions taken on the replayed event: back to the failed step, or to
+   * the initial step when its retry policy says so or the failed step is unknown
+   */
+  createRetryTransitions(steps: Step[], resolveTarget: (target: string) => string) {
+    const retryable = steps
+      .filter(step => this.canFail(step))
+      .map(step => ({
+        guard: ({ event }: { event: EventObject & { retryStepId?: unknown } }) => event.retryStepId === step.id,
+        target: resolveTarget(this.retryFor(step) === 'failedStep' ? step.id : this.config.initialStep)
+      }));
+
+    return [...retryable, { target: resolveTarget(this.config.initialStep) }];
+  }
+
+  /**
+   * Retry policy of a step
+   */
+  private retryFor(step: Step): 'failedStep' | 'initialStep' {
+    return step.errorHandling?.retry || this.config.errorHandling?.retry || 'failedStep';
+  }
+
+  /**
+   * Convert an error event (hook or actor failure) into the error stored in context
+   */
+  private toFlowError(event: EventObject, stepId: string | undefined, self: AnyActorRef): FlowError {
+    const { error, hookId } = event as EventObject & { error?: unknown; hookId?: string };
+    const input = stepId ? this.entryEvents.get(self)?.get(stepId) : undefined;
+
+    return {
+      message: error instanceof Error ? error.message : typeof error === 'string' ? error : 'An error occurred',
+      name: error instanceof Error ? error.name : 'Error',
+      ...(error && typeof (error as { code?: unknown }).code === 'string' ? { code: (error as { code: string }).code } : {}),
+      ...(stepId ? { stepId } : {}),
+      ...(hookId ? { hookId } : {}),
+      ...(input ? { input: { ...input } } : {})
+    };
+  }
+}
+
+/**
+ * Whether a step with the given id exists, in groups and regions too
+ */
+function hasStep(steps: Step[] | undefined, stepId: string): boolean {
+  return (steps || []).some(step => step.id === stepId || hasStep(step.steps, stepId) || hasStep(step.regions, stepId));
+}
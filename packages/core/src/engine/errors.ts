@@ -0,0 +1,30 @@
+/**
+ * Flow Orchestration Errors
+ * Error types shared by the orchestrator and its builders
+ */
+
+// Error types for better error handling
+export class FlowOrchestrationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public context?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'FlowOrchestrationError';
+  }
+}
+
+export class ValidationError extends FlowOrchestrationError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'VALIDATION_ERROR', context);
+    this.name = 'ValidationError';
+  }
+}
+
+export class ConfigurationError extends FlowOrchestrationError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'CONFIGURATION_ERROR', context);
+    this.name = 'ConfigurationError';
+  }
+}
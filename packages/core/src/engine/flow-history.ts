@@ -0,0 +1,158 @@
+/**
+ * Flow History
+ * Records the steps a flow actually visited so users can go back, undo, redo and jump
+ *
+ * Entering a step pushes it, with the context it was entered with, onto a history kept
+ * in context (guards only see context). Entries after the current one are dropped when
+ * a new step is entered. Steps inside parallel regions are not recorded: the step owning
+ * the regions is, and going back to it restarts its regions.
+ *
+ * - `BACK` returns to the previous entry, keeping the current context
+ * - `UNDO` returns to the previous entry and restores the context it was entered with
+ * - `REDO` moves to the next entry and restores its context
+ * - `HISTORY_JUMP_EVENT` returns to the latest entry of an already-visited step
+ *
+ * A step's own `navigation.onBack` still takes precedence over the generic `BACK`.
+ */
+
+import { assign, type EventObject } from 'xstate';
+import type { FlowConfig, FlowHistoryState, Step } from '../types';
+import { applyPatch } from '../utils/context-patch';
+import { getByPath, setByPath } from '../utils/object-path';
+
+/**
+ * Event jumping back to an already-visited step, carrying its `stepId`
+ */
+export const HISTORY_JUMP_EVENT = 'xflows.history.jump';
+
+const DEFAULT_CONTEXT_PATH = '$history';
+const DEFAULT_LIMIT = 50;
+
+type HistoryEvent = 'BACK' | 'UNDO' | 'REDO' | typeof HISTORY_JUMP_EVENT;
+
+type ActionArgs = { context: Record<string, unknown>; event: EventObject };
+
+export class FlowHistory {
+  private config: FlowConfig;
+
+  constructor(config: FlowConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Whether the flow records its history; flows opt in with `history.enabled`
+   */
+  get enabled(): boolean {
+    return this.config.history?.enabled === true;
+  }
+
+  /**
+   * Context path where the history is kept
+   */
+  get contextPath(): string {
+    return this.config.history?.contextPath || DEFAULT_CONTEXT_PATH;
+  }
+
+  /**
+   * Read the history from a flow context
+   */
+  read(context: Record<string, unknown>): FlowHistoryState {
+    const history = getByPath(context, this.contextPath) as FlowHistoryState | undefined;
+    return history && Array.isArray(history.entries) ? history : { entries: [], index: -1 };
+  }
+
+  /**
+   * Context without the history
+   */
+  strip(context: Record<string, unknown>): Record<string, unknown> {
+    return applyPatch(context, { op: 'remove', path: this.contextPath });
+  }
+
+  /**
+   * Whether entering the step is recorded (steps that are not groups, outside parallel regions)
+   */
+  records(step: Step, region?: string): boolean {
+    return this.enabled && region === undefined && step.steps === undefined;
+  }
+
+  /**
+   * Every step whose entry is recorded
+   */
+  recordedSteps(steps: Step[]): Step[] {
+    return steps.flatMap(step => (step.steps ? this.recordedSteps(step.steps) : [step]));
+  }
+
+  /**
+   * Create entry action pushing the step onto the history, unless it is the current entry
+   * (the flow went back to it)
+   */
+  createRecordAction(stepId: string) {
+    return assign(({ context }: ActionArgs) => {
+      const { entries, index } = this.read(context);
+      if (entries[index]?.stepId === stepId) {
+        return context;
+      }
+
+      const limit = this.config.history?.limit || DEFAULT_LIMIT;
+      const next = [...entries.slice(0, index + 1), { stepId, context: this.strip(context) }].slice(-limit);
+      return setByPath(context, this.contextPath, { entries: next, index: next.length - 1 });
+    });
+  }
+
+  /**
+   * Create the root transitions for BACK, UNDO, REDO and jumps: one guarded branch per recorded step
+   */
+  createTransitions(steps: Step[], resolveTarget: (stepId: string) => string): Record<string, unknown> {
+    const events: HistoryEvent[] = ['BACK', 'UNDO', 'REDO', HISTORY_JUMP_EVENT];
+    const recorded = this.recordedSteps(steps);
+
+    return Object.fromEntries(
+      events.map(type => [
+        type,
+        recorded.map(step => ({
+          guard: ({ context, event }: ActionArgs) => {
+            const index = this.findIndex(type, context, event);
+            return index !== -1 && this.read(context).entries[index].stepId === step.id;
+          },
+          target: resolveTarget(step.id),
+          actions: assign(({ context, event }: ActionArgs) =>
+            this.moveTo(context, this.findIndex(type, context, event), type === 'UNDO' || type === 'REDO')
+          )
+        }))
+      ])
+    );
+  }
+
+  /**
+   * Index of the entry an event moves to, or -1 when it cannot move
+   */
+  private findIndex(type: HistoryEvent, context: Record<string, unknown>, event: EventObject): number {
+    const { entries, index } = this.read(context);
+    switch (type) {
+      case 'BACK':
+      case 'UNDO':
+        return index > 0 ? index - 1 : -1;
+      case 'REDO':
+        return index + 1 < entries.length ? index + 1 : -1;
+      default: {
+        const { stepId } = event as EventObject & { stepId?: unknown };
+        const target = entries.map(entry => entry.stepId).lastIndexOf(String(stepId));
+        return target === index ? -1 : target;
+      }
+    }
+  }
+
+  /**
+   * Move the history to an entry, optionally restoring the context the entry was recorded with
+   */
+  private moveTo(context: Record<string, unknown>, index: number, restore: boolean): Record<string, unknown> {
+    const history = this.read(context);
+    if (!restore) {
+      return setByPath(context, this.contextPath, { ...history, index });
+    }
+
+    // assign merges into the current context, so fields added since then are cleared explicitly
+    const cleared = Object.fromEntries(Object.keys(context).map(key => [key, undefined]));
+    return setByPath({ ...cleared, ...history.entries[index].context }, this.contextPath, { ...history, index });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Flow Lifecycle
+ * Dispatches the lifecycle callbacks of plugins for every running actor of a flow
+ *
+ * The flow machine starts the flow (`onFlowStart`), enters and leaves steps
+ * (`onStepEnter`, `onStepExit`), moves between steps (`onTransition`, from the last step
+ * left to the step entered; steps holding child steps or regions only enter and leave),
+ * stores errors (`onError`) and finishes (`onFlowComplete`, with the flow output).
+ */
+
+import type { AnyActorRef, EventObject } from 'xstate';
+import type { FlowConfig, FlowError, FlowLifecycleEvent, FlowLifecycleHook, Step } from '../types';
+import type { PluginResolver } from './plugin-resolver';
+
+type ActionArgs = { context: Record<string, unknown>; event: EventObject; self: AnyActorRef };
+
+export class FlowLifecycle {
+  private config: FlowConfig;
+  private plugins: PluginResolver;
+  // Last step left, per running actor
+  private lastSteps = new WeakMap<AnyActorRef, string>();
+
+  constructor(config: FlowConfig, plugins: PluginResolver) {
+    this.config = config;
+    this.plugins = plugins;
+  }
+
+  /**
+   * Whether plugins observe the flow; lifecycle actions are only added to the machine then
+   */
+  get enabled(): boolean {
+    return this.plugins.observesLifecycle;
+  }
+
+  /**
+   * Create root entry action starting the flow
+   */
+  createStartAction() {
+    return (args: ActionArgs) => this.dispatch('onFlowStart', args);
+  }
+
+  /**
+   * Create entry action entering a step, and moving to it when it has no child steps
+   */
+  createEnterAction(step: Pick<Step, 'id' | 'steps' | 'regions'>) {
+    const leaf = !step.steps && !step.regions;
+    return (args: ActionArgs) => {
+      this.dispatch('onStepEnter', args, { stepId: step.id });
+
+      const from = this.lastSteps.get(args.self);
+      if (leaf && from !== undefined) {
+        this.lastSteps.delete(args.self);
+        this.dispatch('onTransition', args, { from, to: step.id });
+      }
+    };
+  }
+
+  /**
+   * Create exit action leaving a step
+   */
+  createExitAction(step: Pick<Step, 'id' | 'steps' | 'regions'>) {
+    const leaf = !step.steps && !step.regions;
+    return (args: ActionArgs) => {
+      if (leaf) {
+        this.lastSteps.set(args.self, step.id);
+      }
+      this.dispatch('onStepExit', args, { stepId: step.id });
+    };
+  }
+
+  /**
+   * Report an error stored by the flow
+   */
+  error(error: FlowError, args: ActionArgs): void {
+    this.dispatch('onError', args, { error, ...(error.stepId ? { stepId: error.stepId } : {}) });
+  }
+
+  /**
+   * Report the output of a finished flow
+   */
+  complete(output: unknown, args: ActionArgs): void {
+    this.dispatch('onFlowComplete', args, { output });
+  }
+
+  private dispatch(hook: FlowLifecycleHook, { context, event, self }: ActionArgs, details: Partial<FlowLifecycleEvent> = {}) {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.plugins.dispatch(hook, {
+      flowId: this.config.id,
+      sessionId: self.sessionId,
+      context,
+      event: event as unknown as Record<string, unknown>,
+      ...details
+    });
+  }
+}
@@ -2,10 +2,17 @@
  * Test for FlowOrchestrator with defensive validation
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createActor, fromPromise, waitFor } from 'xstate';
+import jsonLogic from 'json-logic-js';
 import { FlowOrchestrator, ValidationError, ConfigurationError } from './flow-orchestrator';
 import { schemaValidator } from '../validation/schema-validator';
 import { runtimeTypeValidator } from '../validation/runtime-type-validator';
+import { FormValidator, formValidator } from '../validation/form-validator';
+import { TemplateParser } from '../parser/template-parser';
+import { resultMapper } from '../utils/result-mapper';
+import type { FlowPlugin } from './plugin-resolver';
+import type { FlowConfig, FlowLifecycleEvent, NavigationConfig, ViewConfig } from '../types';
 
 describe('FlowOrchestrator', () => {
   const orchestrator = new FlowOrchestrator();
@@ -93,6 +100,1680 @@ describe('FlowOrchestrator', () => {
   });
 });
 
+describe('FlowOrchestrator invoke', () => {
+  const createInvokeFlow = (invoke: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+    id: 'invoke-flow',
+    name: 'Invoke Flow',
+    initialStep: 'loading',
+    context: { user: { email: 'jane@example.com' } },
+    ...extra,
+    steps: [
+      {
+        id: 'loading',
+        name: 'Loading',
+        view: { type: 'loading' },
+        invoke,
+        navigation: {}
+      },
+      { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} },
+      { id: 'failed', name: 'Failed', view: { type: 'error' }, navigation: {} }
+    ]
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should invoke a registered actor with templated input and follow onDone', async () => {
+    const received: unknown[] = [];
+    const orchestrator = new FlowOrchestrator().registerActor(
+      'sendEmail',
+      fromPromise(async ({ input }: { input: unknown }) => {
+        received.push(input);
+        return { sent: true };
+      })
+    );
+
+    const machine = orchestrator.orchestrate(createInvokeFlow({
+      src: 'sendEmail',
+      input: { to: '{{context.user.email}}' },
+      onDone: 'done',
+      onError: 'failed'
+    }));
+
+    const actor = createActor(machine).start();
+    await waitFor(actor, (snapshot) => snapshot.value === 'done');
+
+    expect(received).toEqual([{ to: 'jane@example.com' }]);
+    actor.stop();
+  });
+
+  it('should follow onError when the actor rejects', async () => {
+    const orchestrator = new FlowOrchestrator().registerActor(
+      'sendEmail',
+      fromPromise(async () => {
+        throw new Error('boom');
+      })
+    );
+
+    const machine = orchestrator.orchestrate(createInvokeFlow({
+      src: 'sendEmail',
+      onDone: 'done',
+      onError: { target: 'failed' }
+    }));
+
+    const actor = createActor(machine).start();
+    await waitFor(actor, (snapshot) => snapshot.value === 'failed');
+    actor.stop();
+  });
+
+  it('should resolve src against FlowConfig.actors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ id: 1 })
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const machine = new FlowOrchestrator().orchestrate(createInvokeFlow(
+      {
+        src: 'httpClient',
+        input: { endpoint: 'https://api.example.com/users/{{context.user.email}}' },
+        onDone: 'done',
+        onError: 'failed'
+      },
+      { actors: { httpClient: { type: 'fromPromise', endpoint: '{{endpoint}}', method: 'GET' } } }
+    ));
+
+    const actor = createActor(machine).start();
+    await waitFor(actor, (snapshot) => snapshot.value === 'done');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.example.com/users/jane@example.com',
+      expect.objectContaining({ method: 'GET' })
+    );
+    actor.stop();
+  });
+
+  it('should reject invoke sources that cannot be resolved', () => {
+    expect(() => new FlowOrchestrator().orchestrate(createInvokeFlow({
+      src: 'unknownActor',
+      onDone: 'done',
+      onError: 'failed'
+    }))).toThrow(/Step "loading" invokes actor "unknownActor" which is not declared, registered or loaded/);
+  });
+
+  it('should reject invoke targets that do not exist', () => {
+    expect(() => {
+      new FlowOrchestrator().orchestrate(createInvokeFlow({ src: 'sendEmail', onDone: 'missing' }));
+    }).toThrow(ConfigurationError);
+  });
+});
+
+describe('FlowOrchestrator hooks', () => {
+  const createHookFlow = (hooks: Record<string, unknown>) => ({
+    id: 'hook-flow',
+    name: 'Hook Flow',
+    initialStep: 'start',
+    context: { profile: {}, visits: 0 },
+    steps: [
+      { id: 'start', name: 'Start', view: { type: 'form' }, navigation: { onNext: 'details' } },
+      { id: 'details', name: 'Details', view: { type: 'form' }, hooks, navigation: { onNext: 'end' } },
+      { id: 'end', name: 'End', view: { type: 'success' }, navigation: {} }
+    ]
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should run before hooks as entry actions with immutable context updates', () => {
+    const machine = new FlowOrchestrator().orchestrate(createHookFlow({
+      before: [{ id: 'save-name', type: 'assign', target: 'profile.name', value: '{{event.data.name}}' }]
+    }));
+
+    const actor = createActor(machine).start();
+    const initialContext = actor.getSnapshot().context;
+    actor.send({ type: 'NEXT', data: { name: 'Jane' } });
+
+    expect(actor.getSnapshot().context.profile).toEqual({ name: 'Jane' });
+    expect(initialContext.profile).toEqual({});
+    actor.stop();
+  });
+
+  it('should run after hooks as exit actions', () => {
+    const machine = new FlowOrchestrator().orchestrate(createHookFlow({
+      after: [{ id: 'mark-done', type: 'assign', target: 'profile.completed', value: true }]
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+    expect(actor.getSnapshot().context.profile).toEqual({});
+
+    actor.send({ type: 'NEXT' });
+    expect(actor.getSnapshot().value).toBe('end');
+    expect(actor.getSnapshot().context.profile).toEqual({ completed: true });
+    actor.stop();
+  });
+
+  it('should run async after hooks as actors and write updateContext results', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => ({ saved: true }) }));
+
+    const machine = new FlowOrchestrator().orchestrate(createHookFlow({
+      after: [{ id: 'save', type: 'http_call', endpoint: 'https://api.example.com/save', method: 'POST', updateContext: 'saveResult' }]
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+    actor.send({ type: 'NEXT' });
+
+    await waitFor(actor, (snapshot) => snapshot.context.saveResult !== undefined);
+    expect(actor.getSnapshot().context.saveResult).toEqual({ saved: true });
+    expect(actor.getSnapshot().value).toBe('end');
+    actor.stop();
+  });
+
+  it('should move to the error state when a failing hook has onError "fail"', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network down')));
+
+    const machine = new FlowOrchestrator().orchestrate(createHookFlow({
+      before: [{ id: 'load', type: 'http_call', endpoint: 'https://api.example.com/load', onError: 'fail' }]
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+
+    await waitFor(actor, (snapshot) => snapshot.value === 'error');
+    actor.stop();
+  });
+
+  it('should ignore failing hooks by default', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network down')));
+
+    const machine = new FlowOrchestrator().orchestrate(createHookFlow({
+      before: [{ id: 'load', type: 'http_call', endpoint: 'https://api.example.com/load' }]
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+    expect(actor.getSnapshot().value).toBe('details');
+    actor.stop();
+    warn.mockRestore();
+  });
+});
+
+describe('FlowOrchestrator actions', () => {
+  const createActionFlow = (actions: Record<string, unknown>, onNext: unknown) => ({
+    id: 'action-flow',
+    name: 'Action Flow',
+    initialStep: 'form',
+    context: { stepData: {} },
+    actions,
+    steps: [
+      { id: 'form', name: 'Form', view: { type: 'form' }, navigation: { onNext } },
+      { id: 'review', name: 'Review', view: { type: 'display' }, navigation: {} }
+    ]
+  });
+
+  it('should assign template-resolved values with their original type', () => {
+    const machine = new FlowOrchestrator().orchestrate(createActionFlow(
+      { assignStepData: { type: 'assign', target: 'stepData', value: '{{event.data}}' } },
+      { target: 'review', actions: 'assignStepData' }
+    ));
+
+    const actor = createActor(machine).start();
+    const initialContext = actor.getSnapshot().context;
+    actor.send({ type: 'NEXT', data: { firstName: 'Jane', age: 42 } });
+
+    expect(actor.getSnapshot().value).toBe('review');
+    expect(actor.getSnapshot().context.stepData).toEqual({ firstName: 'Jane', age: 42 });
+    expect(initialContext.stepData).toEqual({});
+    actor.stop();
+  });
+
+  it('should delegate unknown action types to registered handlers', () => {
+    const handler = vi.fn();
+    const machine = new FlowOrchestrator()
+      .registerAction('http-action', handler)
+      .orchestrate(createActionFlow(
+        { saveUser: { type: 'http-action', config: { endpoint: '/api/users' } } },
+        { target: 'review', actions: ['saveUser'] }
+      ));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT', data: { firstName: 'Jane' } });
+
+    expect(handler).toHaveBeenCalledWith(
+      { endpoint: '/api/users' },
+      { stepData: {} },
+      { type: 'NEXT', data: { firstName: 'Jane' } }
+    );
+    actor.stop();
+  });
+
+  it('should reject action types without a handler', () => {
+    expect(() => {
+      new FlowOrchestrator().orchestrate(createActionFlow(
+        { saveUser: { type: 'http-action' } },
+        { target: 'review', actions: 'saveUser' }
+      ));
+    }).toThrow(ConfigurationError);
+  });
+
+  it('should reject references to undeclared actions', () => {
+    expect(() => {
+      new FlowOrchestrator().orchestrate(createActionFlow({}, { target: 'review', actions: 'missing' }));
+    }).toThrow(ConfigurationError);
+  });
+});
+
+describe('FlowOrchestrator guards', () => {
+  const createGuardFlow = (guards: Record<string, unknown>, guard = 'canContinue') => ({
+    id: 'guard-flow',
+    name: 'Guard Flow',
+    initialStep: 'form',
+    context: { validationResult: { score: 0 }, items: [] },
+    guards,
+    steps: [
+      { id: 'form', name: 'Form', view: { type: 'form' }, navigation: { onNext: { target: 'review', guard } } },
+      { id: 'review', name: 'Review', view: { type: 'display' }, navigation: {} }
+    ]
+  });
+
+  it('should evaluate JSON Logic guards against context', () => {
+    const machine = new FlowOrchestrator().orchestrate(createGuardFlow({
+      canContinue: { type: 'jsonLogic', expression: { '>': [{ var: 'validationResult.score' }, 80] } }
+    }));
+
+    const blocked = createActor(machine).start();
+    blocked.send({ type: 'NEXT' });
+    expect(blocked.getSnapshot().value).toBe('form');
+    blocked.stop();
+
+    const allowed = createActor(machine, {
+      snapshot: machine.resolveState({ value: 'form', context: { validationResult: { score: 95 }, items: [] } })
+    }).start();
+    allowed.send({ type: 'NEXT' });
+    expect(allowed.getSnapshot().value).toBe('review');
+    allowed.stop();
+  });
+
+  it('should expose the event to JSON Logic guards', () => {
+    const machine = new FlowOrchestrator().orchestrate(createGuardFlow({
+      canContinue: {
+        type: 'jsonLogic',
+        expression: { and: [{ in: [{ var: 'event.data.plan' }, ['basic', 'pro']] }, { starts_with: [{ var: 'event.data.email' }, 'jane'] }] }
+      }
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT', data: { plan: 'enterprise', email: 'jane@example.com' } });
+    expect(actor.getSnapshot().value).toBe('form');
+    actor.send({ type: 'NEXT', data: { plan: 'pro', email: 'jane@example.com' } });
+    expect(actor.getSnapshot().value).toBe('review');
+    actor.stop();
+  });
+
+  it('should keep the string operations of JSON Logic guards to the flow', () => {
+    const machine = new FlowOrchestrator().orchestrate(createGuardFlow({
+      canContinue: { type: 'jsonLogic', expression: { match: [{ lower: { var: 'event.data.code' } }, '^[a-z]{2}-[0-9]+$'] } }
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT', data: { code: 'ES-42' } });
+    expect(actor.getSnapshot().value).toBe('review');
+    actor.stop();
+
+    expect(() => jsonLogic.apply({ lower: ['ES'] } as never)).toThrow(/Unrecognized operation lower/);
+  });
+
+  it('should leave the JSON Logic operations of the host untouched', () => {
+    jsonLogic.add_operation('upper', () => 'host');
+    try {
+      const machine = new FlowOrchestrator().orchestrate(createGuardFlow({
+        canContinue: { type: 'jsonLogic', expression: { '==': [{ upper: { var: 'event.data.code' } }, 'ES'] } }
+      }));
+
+      const actor = createActor(machine).start();
+      actor.send({ type: 'NEXT', data: { code: 'es' } });
+      expect(actor.getSnapshot().value).toBe('review');
+      actor.stop();
+
+      expect(jsonLogic.apply({ upper: ['es'] } as never)).toBe('host');
+    } finally {
+      jsonLogic.rm_operation('upper');
+    }
+  });
+
+  it('should reject JSON Logic guards with unsafe match patterns', () => {
+    for (const pattern of ['^(a+)+$', '^(a|a)*$', '^(a|aa)+$', '^((?:a|b))*$', '^(x(a?))+$']) {
+      expect(() => new FlowOrchestrator().orchestrate(createGuardFlow({
+        canContinue: { type: 'jsonLogic', expression: { match: [{ var: 'event.data.code' }, pattern] } }
+      }))).toThrow(
+        `JSON Logic guard "canContinue" is invalid: "match" pattern "${pattern}" repeats a group containing a quantifier or an alternation`
+      );
+    }
+  });
+
+  it('should accept match patterns repeating plain groups and escaped characters', () => {
+    expect(() => new FlowOrchestrator().orchestrate(createGuardFlow({
+      canContinue: { type: 'jsonLogic', expression: { match: [{ var: 'event.data.code' }, '^(ab)+[|+*]\\(x|y\\)*$'] } }
+    }))).not.toThrow();
+  });
+
+  it('should evaluate simple guard conditions', () => {
+    const machine = new FlowOrchestrator().orchestrate(createGuardFlow({
+      canContinue: { type: 'simple', condition: "event.data.age >= 18 && (event.data.country == 'ES' || !event.data.restricted)" }
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT', data: { age: 16, country: 'ES' } });
+    expect(actor.getSnapshot().value).toBe('form');
+    actor.send({ type: 'NEXT', data: { age: 30, country: 'FR', restricted: true } });
+    expect(actor.getSnapshot().value).toBe('form');
+    actor.send({ type: 'NEXT', data: { age: 30, country: 'FR' } });
+    expect(actor.getSnapshot().value).toBe('review');
+    actor.stop();
+  });
+
+  it('should reject simple guards with invalid conditions', () => {
+    expect(() => {
+      new FlowOrchestrator().orchestrate(createGuardFlow({
+        canContinue: { type: 'simple', condition: 'context.age >= ' }
+      }));
+    }).toThrow(ConfigurationError);
+  });
+
+  it('should delegate unknown guard types to registered handlers', () => {
+    const handler = vi.fn((config: Record<string, unknown>, _context: Record<string, unknown>, event: Record<string, unknown>) =>
+      (event.data as Record<string, unknown> | undefined)?.role === config.role);
+    const machine = new FlowOrchestrator()
+      .registerGuard('role', handler)
+      .orchestrate(createGuardFlow({ canContinue: { type: 'role', config: { role: 'admin' } } }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT', data: { role: 'user' } });
+    expect(actor.getSnapshot().value).toBe('form');
+    actor.send({ type: 'NEXT', data: { role: 'admin' } });
+    expect(actor.getSnapshot().value).toBe('review');
+    expect(handler).toHaveBeenCalledWith({ role: 'admin' }, expect.any(Object), expect.objectContaining({ type: 'NEXT' }));
+    actor.stop();
+  });
+
+  it('should reject guard types without a handler and undeclared guards', () => {
+    expect(() => {
+      new FlowOrchestrator().orchestrate(createGuardFlow({ canContinue: { type: 'role' } }));
+    }).toThrow(ConfigurationError);
+
+    expect(() => {
+      new FlowOrchestrator().orchestrate(createGuardFlow({}, 'missing'));
+    }).toThrow(ConfigurationError);
+  });
+});
+
+describe('FlowOrchestrator branches', () => {
+  const createBranchFlow = (onNext: NavigationConfig[]): FlowConfig => ({
+    id: 'branch-flow',
+    name: 'Branch Flow',
+    initialStep: 'form',
+    context: { score: 0 },
+    guards: {
+      isExcellent: { type: 'simple', condition: 'score >= 90' },
+      isGood: { type: 'simple', condition: 'score >= 50' }
+    },
+    steps: [
+      { id: 'form', name: 'Form', view: { type: 'form' }, navigation: { onNext } },
+      { id: 'premium', name: 'Premium', view: { type: 'display' }, navigation: {} },
+      { id: 'standard', name: 'Standard', view: { type: 'display' }, navigation: {} },
+      { id: 'rejected', name: 'Rejected', view: { type: 'display' }, navigation: {} }
+    ]
+  });
+
+  const branches = [
+    { target: 'premium', guard: 'isExcellent' },
+    { target: 'standard', guard: 'isGood' },
+    { target: 'rejected' }
+  ];
+
+  const createLogger = () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() });
+
+  it('should take the first branch whose guard passes, falling back to the default', () => {
+    const machine = new FlowOrchestrator().orchestrate(createBranchFlow(branches));
+    const startWith = (score: number) => createActor(machine, {
+      snapshot: machine.resolveState({ value: 'form', context: { score } })
+    }).start();
+
+    for (const [score, expected] of [[95, 'premium'], [60, 'standard'], [10, 'rejected']] as const) {
+      const actor = startWith(score);
+      actor.send({ type: 'NEXT' });
+      expect(actor.getSnapshot().value).toBe(expected);
+      actor.stop();
+    }
+  });
+
+  it('should validate the target and guard of every branch', () => {
+    const orchestrator = new FlowOrchestrator();
+
+    expect(() => orchestrator.orchestrate(createBranchFlow([
+      { target: 'premium', guard: 'isExcellent' },
+      { target: 'missing' }
+    ]))).toThrow(/non-existent next step "missing" in branch 2/);
+
+    expect(() => orchestrator.orchestrate(createBranchFlow([
+      { target: 'premium', guard: 'isExcellent' },
+      { target: 'standard', guard: 'isUnknown' },
+      { target: 'rejected' }
+    ]))).toThrow(/non-existent guard "isUnknown"/);
+  });
+
+  it('should warn when branches have no default or a default shadows later branches', () => {
+    const logger = createLogger();
+    const orchestrator = new FlowOrchestrator(logger);
+
+    orchestrator.orchestrate(createBranchFlow(branches.slice(0, 2)));
+    orchestrator.orchestrate(createBranchFlow([branches[2], ...branches.slice(0, 2)]));
+
+    const warnings = logger.warn.mock.calls
+      .filter(([message]) => message === 'Flow structure has warnings')
+      .flatMap(([, context]) => context.warnings);
+    expect(warnings).toEqual([
+      'Step "form" next branches have no unguarded default branch',
+      'Step "form" next branch 1 has no guard and shadows the branches after it'
+    ]);
+  });
+
+  it('should expose ordered branches and explain which one is taken', () => {
+    const orchestrator = new FlowOrchestrator();
+    const flow = createBranchFlow(branches);
+
+    expect(orchestrator.getTransitionBranches(flow, 'form').map(branch => branch.target))
+      .toEqual(['premium', 'standard', 'rejected']);
+
+    const explanation = orchestrator.explainTransition(flow, 'form', 'NEXT', { score: 60 });
+    expect(explanation.branches.map(branch => branch.matched)).toEqual([false, true, true]);
+    expect(explanation.taken).toEqual({ index: 1, target: 'standard', guard: 'isGood', actions: [], isDefault: false });
+  });
+});
+
+describe('FlowOrchestrator step groups and sub-flows', () => {
+  const view: ViewConfig = { type: 'form' };
+
+  const insuranceFlow: FlowConfig = {
+    id: 'insurance',
+    name: 'Insurance',
+    initialStep: 'personal',
+    context: { visited: [] as string[] },
+    steps: [
+      {
+        id: 'personal',
+        name: 'Personal details',
+        initialStep: 'name',
+        hooks: { before: [{ id: 'enterSection', type: 'assign', target: 'section', value: 'personal' }] },
+        navigation: { onNext: 'coverage', onCancel: 'cancelled' },
+        steps: [
+          { id: 'name', name: 'Name', view, navigation: { onNext: 'address' } },
+          { id: 'address', name: 'Address', view, navigation: { onNext: 'personalDone', onBack: 'name' } },
+          { id: 'personalDone', name: 'Done', view, navigation: {}, final: true }
+        ]
+      },
+      {
+        id: 'coverage',
+        name: 'Coverage',
+        navigation: { onCancel: 'cancelled' },
+        steps: [
+          { id: 'plan', name: 'Plan', view, navigation: { onNext: 'payment', onBack: 'address' } }
+        ]
+      },
+      { id: 'payment', name: 'Payment', view, navigation: {} },
+      { id: 'cancelled', name: 'Cancelled', view, navigation: {} }
+    ]
+  };
+
+  it('should compile step groups to compound states with section navigation and hooks', () => {
+    const machine = new FlowOrchestrator().orchestrate(insuranceFlow);
+    const actor = createActor(machine).start();
+
+    expect(actor.getSnapshot().value).toEqual({ personal: 'name' });
+    expect(actor.getSnapshot().context.section).toBe('personal');
+
+    actor.send({ type: 'NEXT' });
+    actor.send({ type: 'NEXT' });
+    expect(actor.getSnapshot().value).toEqual({ coverage: 'plan' });
+
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toEqual({ personal: 'address' });
+
+    actor.send({ type: 'CANCEL' });
+    expect(actor.getSnapshot().value).toBe('cancelled');
+    actor.stop();
+  });
+
+  it('should target steps across groups by id', () => {
+    const machine = new FlowOrchestrator().orchestrate(insuranceFlow);
+    const actor = createActor(machine, {
+      snapshot: machine.resolveState({ value: { coverage: 'plan' }, context: {} })
+    }).start();
+
+    actor.send({ type: 'NEXT' });
+    expect(actor.getSnapshot().value).toBe('payment');
+    actor.stop();
+  });
+
+  it('should reject group initial steps that are not children and duplicate nested ids', () => {
+    const orchestrator = new FlowOrchestrator();
+    const withGroup = (group: Record<string, unknown>) => ({ ...insuranceFlow, steps: [group, ...insuranceFlow.steps.slice(1)] });
+
+    expect(() => orchestrator.orchestrate(withGroup({ ...insuranceFlow.steps[0], initialStep: 'payment' })))
+      .toThrow(/initial step "payment" is not one of its child steps/);
+    expect(() => orchestrator.orchestrate(withGroup({
+      ...insuranceFlow.steps[0],
+      steps: [...(insuranceFlow.steps[0].steps || []), { id: 'payment', name: 'Payment', view, navigation: {} }]
+    }))).toThrow(/Duplicate step IDs found: payment/);
+  });
+
+  describe('sub-flows', () => {
+    const addressFlow: FlowConfig = {
+      id: 'address-flow',
+      name: 'Address',
+      initialStep: 'street',
+      context: { country: 'ES', street: '' },
+      steps: [
+        { id: 'street', name: 'Street', view, navigation: { onNext: { target: 'done', actions: 'saveStreet' } } },
+        { id: 'done', name: 'Done', view, navigation: {}, final: true }
+      ],
+      actions: { saveStreet: { type: 'assign', target: 'street', value: '{{event.data.street}}' } }
+    };
+
+    const parentFlow: FlowConfig = {
+      id: 'parent-flow',
+      name: 'Parent',
+      initialStep: 'address',
+      context: { customer: { country: 'FR' } },
+      steps: [
+        {
+          id: 'address',
+          name: 'Address',
+          subFlow: {
+            flowId: 'address-flow',
+            input: { country: '{{context.customer.country}}' },
+            output: { 'customer.address': '{{output.street}}', 'customer.country': '{{output.country}}' }
+          },
+          navigation: { onNext: 'summary', onCancel: 'summary' }
+        },
+        { id: 'summary', name: 'Summary', view, navigation: {} }
+      ]
+    };
+
+    it('should run the sub-flow with mapped input and map its output into the parent context', () => {
+      const machine = new FlowOrchestrator().registerFlow(addressFlow).orchestrate(parentFlow);
+      const actor = createActor(machine).start();
+
+      const child = actor.getSnapshot().children['subflow.address'];
+      expect(child?.getSnapshot().context).toEqual({ country: 'FR', street: '' });
+
+      actor.send({ type: 'NEXT', data: { street: 'Rue de Rivoli 1' } });
+
+      expect(actor.getSnapshot().value).toBe('summary');
+      expect(actor.getSnapshot().context.customer).toEqual({ country: 'FR', address: 'Rue de Rivoli 1' });
+      actor.stop();
+    });
+
+    it('should keep parent navigation events on the sub-flow step', () => {
+      const machine = new FlowOrchestrator().registerFlow(addressFlow).orchestrate(parentFlow);
+      const actor = createActor(machine).start();
+
+      actor.send({ type: 'CANCEL' });
+      expect(actor.getSnapshot().value).toBe('summary');
+      expect(actor.getSnapshot().context.customer).toEqual({ country: 'FR' });
+      actor.stop();
+    });
+
+    it('should reject unregistered and cyclic sub-flows', () => {
+      expect(() => new FlowOrchestrator().orchestrate(parentFlow)).toThrow(/unregistered sub-flow "address-flow"/);
+
+      const cyclic: FlowConfig = {
+        ...addressFlow,
+        steps: [{ id: 'street', name: 'Street', subFlow: { flowId: 'parent-flow' }, navigation: {} }]
+      };
+      expect(() => new FlowOrchestrator().registerFlow(cyclic).registerFlow(parentFlow).orchestrate(parentFlow))
+        .toThrow(/creates a cycle/);
+    });
+
+    it('should reject steps embedding a sub-flow and invoking an actor at once', () => {
+      const [address, summary] = parentFlow.steps;
+      const invoking: FlowConfig = {
+        ...parentFlow,
+        steps: [{ ...address, invoke: { src: 'geocode', onDone: 'summary' } }, summary]
+      };
+      const orchestrator = new FlowOrchestrator().registerFlow(addressFlow).registerActor('geocode', fromPromise(async () => ({})));
+
+      expect(() => orchestrator.orchestrate(invoking))
+        .toThrow('Step at index 0 cannot embed a sub-flow and invoke an actor at once');
+    });
+  });
+});
+
+describe('FlowOrchestrator parallel regions', () => {
+  const view = { type: 'form' };
+
+  const createParallelFlow = (join?: 'all' | 'any') => ({
+    id: 'parallel-flow',
+    name: 'Parallel Flow',
+    initialStep: 'checks',
+    context: {},
+    steps: [
+      {
+        id: 'checks',
+        name: 'Checks',
+        join,
+        navigation: { onNext: 'review', onCancel: 'cancelled' },
+        regions: [
+          {
+            id: 'documents',
+            name: 'Documents',
+            navigation: {},
+            steps: [
+              { id: 'upload', name: 'Upload', view: { type: 'form', title: 'Upload' }, navigation: { onNext: 'uploaded' } },
+              { id: 'uploaded', name: 'Uploaded', view, navigation: {}, final: true }
+            ]
+          },
+          {
+            id: 'identity',
+            name: 'Identity',
+            navigation: {},
+            steps: [
+              { id: 'verify', name: 'Verify', view: { type: 'form', title: 'Verify' }, navigation: { onNext: 'verified' } },
+              { id: 'verified', name: 'Verified', view, navigation: {}, final: true }
+            ]
+          }
+        ]
+      },
+      { id: 'review', name: 'Review', view, navigation: {} },
+      { id: 'cancelled', name: 'Cancelled', view, navigation: {} }
+    ]
+  });
+
+  it('should compile regions to a parallel state and scope events to a region', () => {
+    const machine = new FlowOrchestrator().orchestrate(createParallelFlow());
+    const actor = createActor(machine).start();
+
+    expect(actor.getSnapshot().value).toEqual({ checks: { documents: 'upload', identity: 'verify' } });
+
+    actor.send({ type: 'NEXT', region: 'documents' });
+    expect(actor.getSnapshot().value).toEqual({ checks: { documents: 'uploaded', identity: 'verify' } });
+
+    actor.send({ type: 'NEXT', region: 'identity' });
+    expect(actor.getSnapshot().value).toBe('review');
+    actor.stop();
+  });
+
+  it('should leave as soon as any region finishes when joining on any', () => {
+    const machine = new FlowOrchestrator().orchestrate(createParallelFlow('any'));
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'NEXT', region: 'identity' });
+    expect(actor.getSnapshot().value).toBe('review');
+    actor.stop();
+  });
+
+  it('should apply the parallel step navigation from any region', () => {
+    const machine = new FlowOrchestrator().orchestrate(createParallelFlow());
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'CANCEL' });
+    expect(actor.getSnapshot().value).toBe('cancelled');
+    actor.stop();
+  });
+
+  it('should reject regions that are not step groups', () => {
+    const flow = createParallelFlow();
+    flow.steps[0].regions = [{ id: 'documents', name: 'Documents', view, navigation: {} } as never];
+
+    expect(() => new FlowOrchestrator().orchestrate(flow)).toThrow(/must be a step group/);
+  });
+});
+
+describe('FlowOrchestrator final steps and output', () => {
+  const createOutputFlow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'quote-flow',
+    name: 'Quote Flow',
+    initialStep: 'quote',
+    context: { quote: { id: 'Q-1', premium: 0 } },
+    actions: { savePremium: { type: 'assign', target: 'quote.premium', value: '{{event.data.premium}}' } },
+    steps: [
+      { id: 'quote', name: 'Quote', view: { type: 'form' }, navigation: { onNext: { target: 'done', actions: 'savePremium' } } },
+      {
+        id: 'done',
+        name: 'Done',
+        view: { type: 'success' },
+        navigation: {},
+        final: true,
+        output: { quoteId: '{{context.quote.id}}', premium: '{{context.quote.premium}}' }
+      }
+    ],
+    ...overrides
+  });
+
+  it('should finish the machine with the final step output', async () => {
+    const machine = new FlowOrchestrator().orchestrate(createOutputFlow());
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'NEXT', data: { premium: 120 } });
+
+    const snapshot = await waitFor(actor, state => state.status === 'done');
+    expect(snapshot.output).toEqual({ quoteId: 'Q-1', premium: 120 });
+  });
+
+  it('should validate the output against the flow output schema', () => {
+    const machine = new FlowOrchestrator().orchestrate(createOutputFlow({
+      output: {
+        type: 'object',
+        properties: { quoteId: { type: 'string' }, premium: { type: 'number', minimum: 1 } },
+        required: ['quoteId', 'premium']
+      }
+    }));
+
+    const valid = createActor(machine).start();
+    valid.send({ type: 'NEXT', data: { premium: 120 } });
+    expect(valid.getSnapshot().status).toBe('done');
+
+    const invalid = createActor(machine);
+    invalid.subscribe({ error: () => {} });
+    invalid.start();
+    invalid.send({ type: 'NEXT', data: { premium: 0 } });
+    expect(invalid.getSnapshot().status).toBe('error');
+    expect(invalid.getSnapshot().error).toBeInstanceOf(ValidationError);
+  });
+
+  it('should reject outputs on steps that are not final', () => {
+    const flow = createOutputFlow();
+    flow.steps[0] = { ...flow.steps[0], output: { quoteId: '{{context.quote.id}}' } } as never;
+
+    expect(() => new FlowOrchestrator().orchestrate(flow)).toThrow(/declares an "output" but is not a final step/);
+  });
+});
+
+describe('FlowOrchestrator error handling', () => {
+  const createPaymentFlow = (overrides: Record<string, unknown> = {}, submit: Record<string, unknown> = {}) => ({
+    id: 'payment-flow',
+    name: 'Payment Flow',
+    initialStep: 'start',
+    context: {},
+    steps: [
+      { id: 'start', name: 'Start', view: { type: 'form' }, navigation: { onNext: 'submit' } },
+      {
+        id: 'submit',
+        name: 'Submit',
+        view: { type: 'loading' },
+        invoke: { src: 'charge', input: { amount: '{{event.data.amount}}' }, onDone: 'done' },
+        navigation: {},
+        ...submit
+      },
+      { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} },
+      { id: 'oops', name: 'Oops', view: { type: 'error' }, navigation: {} },
+      { id: 'paymentFailed', name: 'Payment Failed', view: { type: 'error' }, navigation: {} }
+    ],
+    ...overrides
+  });
+
+  // Rejects the first charge, accepts the following ones
+  const createOrchestrator = (received: unknown[]) =>
+    new FlowOrchestrator().registerActor(
+      'charge',
+      fromPromise(async ({ input }: { input: unknown }) => {
+        received.push(input);
+        if (received.length === 1) {
+          throw new Error('card declined');
+        }
+        return { charged: true };
+      })
+    );
+
+  it('should store the error in context and retry the failed step with its last input', async () => {
+    const received: unknown[] = [];
+    const machine = createOrchestrator(received).orchestrate(createPaymentFlow());
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'NEXT', data: { amount: 50 } });
+    const failed = await waitFor(actor, snapshot => snapshot.value === 'error');
+    expect(failed.context.error).toMatchObject({
+      message: 'card declined',
+      name: 'Error',
+      stepId: 'submit',
+      input: { type: 'NEXT', data: { amount: 50 } }
+    });
+
+    actor.send({ type: 'RETRY' });
+    const done = await waitFor(actor, snapshot => snapshot.value === 'done');
+    expect(received).toEqual([{ amount: 50 }, { amount: 50 }]);
+    expect(done.context.error).toBeUndefined();
+    actor.stop();
+  });
+
+  it('should use the configured error step, context path and retry policy', async () => {
+    const machine = createOrchestrator([]).orchestrate(createPaymentFlow({
+      errorHandling: { step: 'oops', contextPath: 'failure.last', retry: 'initialStep' }
+    }));
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'NEXT', data: { amount: 50 } });
+    const failed = await waitFor(actor, snapshot => snapshot.value === 'oops');
+    expect(failed.context).toMatchObject({ failure: { last: { message: 'card declined', stepId: 'submit' } } });
+    expect(machine.config.states).not.toHaveProperty('error');
+
+    actor.send({ type: 'RETRY' });
+    expect(actor.getSnapshot().value).toBe('start');
+    actor.stop();
+  });
+
+  it('should let a step override the error step', async () => {
+    const machine = createOrchestrator([]).orchestrate(createPaymentFlow(
+      { errorHandling: { step: 'oops' } },
+      { errorHandling: { step: 'paymentFailed' } }
+    ));
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'NEXT', data: { amount: 50 } });
+    await waitFor(actor, snapshot => snapshot.value === 'paymentFailed');
+
+    actor.send({ type: 'RETRY' });
+    await waitFor(actor, snapshot => snapshot.value === 'done');
+    actor.stop();
+  });
+
+  it('should use a step named "error" as the error step when none is configured', async () => {
+    const flow = createPaymentFlow();
+    flow.steps[3] = { ...flow.steps[3], id: 'error', name: 'Error' };
+    const machine = createOrchestrator([]).orchestrate(flow);
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'NEXT', data: { amount: 50 } });
+    const failed = await waitFor(actor, snapshot => snapshot.value === 'error');
+    expect(failed.context.error).toMatchObject({ message: 'card declined', stepId: 'submit' });
+    expect(machine.config.states?.error).toMatchObject({ meta: { view: { type: 'error' } } });
+
+    actor.send({ type: 'RETRY' });
+    await waitFor(actor, snapshot => snapshot.value === 'done');
+    actor.stop();
+  });
+
+  it('should move to a nested error step when a hook fails outside of a step', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network down')));
+    const flow: FlowConfig = {
+      id: 'payment-flow',
+      name: 'Payment Flow',
+      initialStep: 'start',
+      context: {},
+      errorHandling: { step: 'oops' },
+      steps: [
+        {
+          id: 'start',
+          name: 'Start',
+          view: { type: 'form' },
+          hooks: { after: [{ id: 'save', type: 'http_call', endpoint: 'https://api.example.com/save', onError: 'fail' }] },
+          navigation: { onNext: 'submit' }
+        },
+        { id: 'submit', name: 'Submit', view: { type: 'loading' }, invoke: { src: 'charge', onDone: 'done' }, navigation: {} },
+        { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} },
+        {
+          id: 'recovery',
+          name: 'Recovery',
+          initialStep: 'oops',
+          steps: [{ id: 'oops', name: 'Oops', view: { type: 'error' }, navigation: {} }],
+          navigation: {}
+        }
+      ]
+    };
+    // The charge succeeds, so only the failing hook can reach the error step
+    const actor = createActor(createOrchestrator([{ amount: 10 }]).orchestrate(flow)).start();
+
+    actor.send({ type: 'NEXT', data: { amount: 50 } });
+    const failed = await waitFor(actor, snapshot => snapshot.matches({ recovery: 'oops' }));
+    expect(failed.context.error).toMatchObject({ message: expect.stringContaining('network down') });
+    actor.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it('should reject error steps that do not exist', () => {
+    const flow = createPaymentFlow({ errorHandling: { step: 'missing' } });
+
+    expect(() => new FlowOrchestrator().orchestrate(flow)).toThrow(
+      /Flow error handling references non-existent step "missing"/
+    );
+  });
+});
+
+describe('FlowOrchestrator context patches', () => {
+  const createCartFlow = (actions: Record<string, unknown>) => ({
+    id: 'cart-flow',
+    name: 'Cart Flow',
+    initialStep: 'cart',
+    context: { cart: { items: ['apple', 'pear'], owner: { name: 'Jane' } } },
+    actions,
+    steps: [
+      { id: 'cart', name: 'Cart', view: { type: 'form' }, navigation: { onNext: { target: 'review', actions: Object.keys(actions) } } },
+      { id: 'review', name: 'Review', view: { type: 'display' }, navigation: {} }
+    ]
+  });
+
+  it('should apply push, merge and remove operations without mutating previous snapshots', () => {
+    const machine = new FlowOrchestrator().orchestrate(createCartFlow({
+      addItem: { type: 'assign', operation: 'push', target: 'cart.items', value: '{{event.data.item}}' },
+      updateOwner: { type: 'assign', operation: 'merge', target: 'cart.owner', value: { email: '{{event.data.email}}' } },
+      dropPear: { type: 'assign', operation: 'remove', target: 'cart.items', value: 'pear' }
+    }));
+
+    const actor = createActor(machine).start();
+    const initialContext = actor.getSnapshot().context;
+    actor.send({ type: 'NEXT', data: { item: 'plum', email: 'jane@example.com' } });
+
+    expect(actor.getSnapshot().context.cart).toEqual({
+      items: ['apple', 'plum'],
+      owner: { name: 'Jane', email: 'jane@example.com' }
+    });
+    expect(initialContext.cart).toEqual({ items: ['apple', 'pear'], owner: { name: 'Jane' } });
+    actor.stop();
+  });
+
+  it('should apply patches returned asynchronously by action handlers', async () => {
+    const handler = vi.fn(async () => ({ data: { id: 'C-1' }, patches: [{ op: 'set', path: 'cart.id', value: 'C-1' }] }));
+    const machine = new FlowOrchestrator()
+      .registerAction('http-action', handler)
+      .orchestrate(createCartFlow({ saveCart: { type: 'http-action', config: { endpoint: '/api/carts' } } }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+
+    const snapshot = await waitFor(actor, state => state.context.cart.id === 'C-1');
+    expect(snapshot.context.cart).toMatchObject({ id: 'C-1', items: ['apple', 'pear'] });
+    actor.stop();
+  });
+
+  it('should log applied patches and undo the last ones', () => {
+    const orchestrator = new FlowOrchestrator();
+    const machine = orchestrator.orchestrate(createCartFlow({
+      addItem: { type: 'assign', operation: 'push', target: 'cart.items', value: 'plum' }
+    }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+
+    expect(orchestrator.getPatchLog(actor)).toEqual([
+      expect.objectContaining({
+        source: 'action:addItem',
+        patches: [{ op: 'push', path: 'cart.items', value: 'plum' }],
+        inverse: [{ op: 'set', path: 'cart.items', value: ['apple', 'pear'] }]
+      })
+    ]);
+
+    actor.send({ type: 'xflows.patch.undo' });
+    expect(actor.getSnapshot().context.cart.items).toEqual(['apple', 'pear']);
+    expect(orchestrator.getPatchLog(actor)).toEqual([]);
+    actor.stop();
+  });
+});
+
+describe('FlowOrchestrator history', () => {
+  const view = { type: 'form' as const };
+  const createClaimFlow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'claim-flow',
+    name: 'Claim Flow',
+    initialStep: 'incident',
+    context: { claim: {} },
+    actions: { saveClaim: { type: 'assign', operation: 'merge', target: 'claim', value: '{{event.data}}' } },
+    guards: { isTheft: { type: 'jsonLogic', expression: { '==': [{ var: 'event.data.kind' }, 'theft'] } } },
+    steps: [
+      {
+        id: 'incident',
+        name: 'Incident',
+        view,
+        navigation: {
+          onNext: [
+            { target: 'police', guard: 'isTheft', actions: 'saveClaim' },
+            { target: 'damage', actions: 'saveClaim' }
+          ]
+        }
+      },
+      { id: 'police', name: 'Police Report', view, navigation: { onNext: { target: 'summary', actions: 'saveClaim' } } },
+      { id: 'damage', name: 'Damage', view, navigation: { onNext: { target: 'summary', actions: 'saveClaim' } } },
+      { id: 'summary', name: 'Summary', view, navigation: { onNext: 'done', onBack: 'incident' } },
+      { id: 'done', name: 'Done', view: { type: 'success' as const }, final: true, navigation: {} }
+    ],
+    history: { enabled: true },
+    ...overrides
+  });
+
+  it('should go back to the step that was actually visited before', () => {
+    const actor = createActor(new FlowOrchestrator().orchestrate(createClaimFlow())).start();
+
+    actor.send({ type: 'NEXT', data: { kind: 'theft' } });
+    expect(actor.getSnapshot().value).toBe('police');
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('incident');
+
+    actor.send({ type: 'NEXT', data: { kind: 'flood' } });
+    actor.send({ type: 'NEXT', data: { estimate: 1200 } });
+    expect(actor.getSnapshot().value).toBe('summary');
+
+    // The step's own onBack wins over the generic one
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('incident');
+    expect(actor.getSnapshot().context.claim).toEqual({ kind: 'flood', estimate: 1200 });
+    actor.stop();
+  });
+
+  it('should restore the context on UNDO and re-apply it on REDO', () => {
+    const actor = createActor(new FlowOrchestrator().orchestrate(createClaimFlow())).start();
+
+    actor.send({ type: 'NEXT', data: { kind: 'theft' } });
+    actor.send({ type: 'NEXT', data: { reportNumber: 'PR-7' } });
+    expect(actor.getSnapshot().value).toBe('summary');
+
+    actor.send({ type: 'UNDO' });
+    expect(actor.getSnapshot().value).toBe('police');
+    expect(actor.getSnapshot().context.claim).toEqual({ kind: 'theft' });
+
+    actor.send({ type: 'UNDO' });
+    expect(actor.getSnapshot().value).toBe('incident');
+    expect(actor.getSnapshot().context.claim).toEqual({});
+
+    actor.send({ type: 'REDO' });
+    actor.send({ type: 'REDO' });
+    expect(actor.getSnapshot().value).toBe('summary');
+    expect(actor.getSnapshot().context.claim).toEqual({ kind: 'theft', reportNumber: 'PR-7' });
+
+    // Nothing to redo past the latest step
+    actor.send({ type: 'REDO' });
+    expect(actor.getSnapshot().value).toBe('summary');
+    actor.stop();
+  });
+
+  it('should only jump to steps that were already visited', () => {
+    const actor = createActor(new FlowOrchestrator().orchestrate(createClaimFlow())).start();
+
+    actor.send({ type: 'NEXT', data: { kind: 'theft' } });
+    actor.send({ type: 'NEXT', data: { reportNumber: 'PR-7' } });
+
+    actor.send({ type: 'xflows.history.jump', stepId: 'damage' });
+    expect(actor.getSnapshot().value).toBe('summary');
+
+    actor.send({ type: 'xflows.history.jump', stepId: 'incident' });
+    expect(actor.getSnapshot().value).toBe('incident');
+    expect(actor.getSnapshot().context.claim).toEqual({ kind: 'theft', reportNumber: 'PR-7' });
+
+    // Taking another branch drops the steps after the current one
+    actor.send({ type: 'NEXT', data: { kind: 'flood' } });
+    expect(actor.getSnapshot().context.$history.entries.map((entry: { stepId: string }) => entry.stepId))
+      .toEqual(['incident', 'damage']);
+    actor.stop();
+  });
+
+  it('should keep the history out of the flow output and honor its options', () => {
+    const actor = createActor(new FlowOrchestrator().orchestrate(createClaimFlow({ history: { enabled: true, limit: 2 } }))).start();
+
+    actor.send({ type: 'NEXT', data: { kind: 'flood' } });
+    actor.send({ type: 'NEXT', data: {} });
+    expect(actor.getSnapshot().context.$history.entries).toHaveLength(2);
+    actor.send({ type: 'NEXT' });
+    expect(actor.getSnapshot().output).toEqual({ claim: { kind: 'flood' } });
+
+    // History is opt-in
+    const disabled = createActor(
+      new FlowOrchestrator().orchestrate(createClaimFlow({ history: undefined }))
+    ).start();
+    disabled.send({ type: 'NEXT', data: { kind: 'theft' } });
+    disabled.send({ type: 'BACK' });
+    expect(disabled.getSnapshot().value).toBe('police');
+    expect(disabled.getSnapshot().context.$history).toBeUndefined();
+
+    expect(() => new FlowOrchestrator().orchestrate(createClaimFlow({ history: { enabled: true, limit: 0 } })))
+      .toThrow(/History "limit" must be a positive integer/);
+  });
+});
+
+describe('FlowOrchestrator form validation', () => {
+  const createSignupFlow = () => ({
+    id: 'signup-flow',
+    name: 'Signup Flow',
+    initialStep: 'account',
+    context: { account: {} },
+    actions: { saveAccount: { type: 'assign', target: 'account', value: '{{event.data}}' } },
+    steps: [
+      {
+        id: 'account',
+        name: 'Account',
+        view: {
+          type: 'form' as const,
+          fields: [
+            { name: 'email', type: 'email' as const, label: 'Email', required: true },
+            { name: 'password', type: 'text' as const, label: 'Password', required: true, validation: { minLength: 8 } },
+            { name: 'confirm', type: 'text' as const, label: 'Confirm password' }
+          ],
+          rules: [
+            { expression: { '==': [{ var: 'confirm' }, { var: 'password' }] }, field: 'confirm', message: 'Passwords do not match' }
+          ]
+        },
+        navigation: { onNext: { target: 'welcome', actions: 'saveAccount' } }
+      },
+      { id: 'welcome', name: 'Welcome', view: { type: 'success' as const }, navigation: {} }
+    ]
+  });
+
+  it('should keep the flow on the step and store field errors when the data is invalid', () => {
+    const actor = createActor(new FlowOrchestrator().orchestrate(createSignupFlow())).start();
+    const validate = vi.spyOn(FormValidator.prototype, 'validate');
+
+    actor.send({ type: 'NEXT', data: { email: 'jane@', password: 'secret', confirm: 'other' } });
+
+    expect(validate).toHaveBeenCalledTimes(1);
+    validate.mockRestore();
+    expect(actor.getSnapshot().value).toBe('account');
+    expect(actor.getSnapshot().context.account).toEqual({});
+    expect(actor.getSnapshot().context.fieldErrors).toEqual({
+      email: [{ field: 'email', rule: 'type', message: 'Email must be a valid email address' }],
+      password: [{ field: 'password', rule: 'minLength', message: 'Password must be at least 8 characters' }],
+      confirm: [{ field: 'confirm', rule: 'rule', message: 'Passwords do not match' }]
+    });
+    actor.stop();
+  });
+
+  it('should take the transition and clear the errors once the data is valid', () => {
+    const actor = createActor(new FlowOrchestrator().orchestrate(createSignupFlow())).start();
+
+    actor.send({ type: 'NEXT', data: {} });
+    expect(actor.getSnapshot().context.fieldErrors.email[0].rule).toBe('required');
+
+    const data = { email: 'jane@example.com', password: 'correct horse', confirm: 'correct horse' };
+    actor.send({ type: 'NEXT', data });
+
+    expect(actor.getSnapshot().value).toBe('welcome');
+    expect(actor.getSnapshot().context.account).toEqual(data);
+    expect(actor.getSnapshot().context.fieldErrors).toBeUndefined();
+    actor.stop();
+  });
+
+  it('should only validate visible and enabled fields against options loaded into context', () => {
+    const machine = new FlowOrchestrator().orchestrate({
+      id: 'customer-flow',
+      name: 'Customer Flow',
+      initialStep: 'customer',
+      context: { countries: [{ code: 'FR', name: 'France' }, { code: 'ES', name: 'Spain' }], locked: true },
+      steps: [
+        {
+          id: 'customer',
+          name: 'Customer',
+          view: {
+            type: 'form',
+            fields: [
+              { name: 'customerType', type: 'radio', label: 'Type', required: true },
+              {
+                name: 'companyName',
+                type: 'text',
+                label: 'Company name',
+                required: true,
+                visibleWhen: { '==': [{ var: 'customerType' }, 'business'] }
+              },
+              { name: 'vatNumber', type: 'text', label: 'VAT number', requiredWhen: { '==': [{ var: 'customerType' }, 'business'] } },
+              { name: 'country', type: 'select', label: 'Country', options: { from: '{{context.countries}}', value: 'code', label: 'name' } },
+              { name: 'referrer', type: 'text', label: 'Referrer', required: true, disabledWhen: { var: 'context.locked' } }
+            ]
+          },
+          navigation: { onNext: 'done' }
+        },
+        { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} }
+      ]
+    });
+
+    const business = createActor(machine).start();
+    business.send({ type: 'NEXT', data: { customerType: 'business', country: 'DE' } });
+    expect(Object.keys(business.getSnapshot().context.fieldErrors)).toEqual(['companyName', 'vatNumber', 'country']);
+    business.stop();
+
+    const individual = createActor(machine).start();
+    individual.send({ type: 'NEXT', data: { customerType: 'individual', country: 'ES' } });
+    expect(individual.getSnapshot().value).toBe('done');
+    individual.stop();
+  });
+
+  it('should reject invalid field patterns', () => {
+    const flow = createSignupFlow();
+    flow.steps[0].view.fields = [{ name: 'zip', type: 'text', label: 'ZIP', validation: { pattern: '[0-9' } }] as never;
+
+    expect(() => new FlowOrchestrator().orchestrate(flow))
+      .toThrow(/Field "zip" of step "account" has an invalid pattern/);
+  });
+});
+
+describe('FlowOrchestrator template compilation', () => {
+  const createFlow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'quote',
+    name: 'Quote',
+    initialStep: 'applicant',
+    context: { applicant: {}, drivers: [] },
+    contextSchema: {
+      type: 'object',
+      properties: {
+        applicant: { $ref: '#/definitions/Person' },
+        drivers: { type: 'array', items: { $ref: '#/definitions/Person' } },
+        metadata: { type: 'object' }
+      },
+      definitions: {
+        Person: { type: 'object', properties: { name: { type: 'string' }, age: { type: 'number' } } }
+      }
+    },
+    guards: { isAdult: { type: 'jsonLogic', expression: { '>=': [{ var: 'applicant.age' }, 18] } } },
+    actions: { saveName: { type: 'assign', target: 'applicant.name', value: "{{event.data.name | default: 'Anonymous'}}" } },
+    steps: [
+      {
+        id: 'applicant',
+        name: 'Applicant',
+        view: { type: 'form', title: 'Hello {{context.applicant.name | upper}}', message: '{{context.drivers | length}} drivers' },
+        navigation: { onNext: [{ target: 'done', guard: 'isAdult', actions: 'saveName' }, { target: 'rejected' }] }
+      },
+      { id: 'done', name: 'Done', view: { type: 'success', message: '{{context.drivers[0].name}} {{context.metadata.any.path}}' }, navigation: {} },
+      { id: 'rejected', name: 'Rejected', view: { type: 'error', message: '{{context.error.message}}' }, navigation: {} }
+    ],
+    ...overrides
+  });
+
+  it('should compile every template and resolve the context paths they read', () => {
+    const orchestrator = new FlowOrchestrator();
+    const compilation = orchestrator.compile(createFlow() as never);
+
+    expect(compilation.errors).toEqual([]);
+    expect(compilation.templates).toBe(5);
+    expect(compilation.references).toContainEqual({
+      location: 'guards.isAdult.expression.>=[0]',
+      kind: 'var',
+      path: 'applicant.age',
+      contextPath: 'applicant.age'
+    });
+    expect(compilation.references).toContainEqual({
+      location: 'steps.applicant.view.title',
+      kind: 'template',
+      path: 'context.applicant.name',
+      contextPath: 'applicant.name'
+    });
+    expect(() => orchestrator.orchestrate(createFlow())).not.toThrow();
+  });
+
+  it('should report unknown context paths and filters with their location', () => {
+    const flow = createFlow({
+      guards: { isAdult: { type: 'jsonLogic', expression: { '>=': [{ var: 'applicant.agee' }, 18] } } },
+      steps: [
+        {
+          id: 'applicant',
+          name: 'Applicant',
+          view: { type: 'form', title: 'Hello {{context.applicant.nmae}}', message: '{{context.drivers | count}}' },
+          navigation: { onNext: { target: 'applicant', guard: 'isAdult' } }
+        }
+      ]
+    });
+
+    expect(new FlowOrchestrator().compile(flow as never).errors).toEqual([
+      { location: 'steps.applicant.view.message', message: 'Unknown filter "count" in "{{context.drivers | count}}"' },
+      { location: 'guards.isAdult.expression.>=[0]', message: 'Unknown context path "applicant.agee"' },
+      { location: 'steps.applicant.view.title', message: 'Unknown context path "applicant.nmae"' }
+    ]);
+    expect(() => new FlowOrchestrator().orchestrate(flow)).toThrow(
+      /steps\.applicant\.view\.title: Unknown context path "applicant\.nmae"/
+    );
+  });
+
+  it('should not check context paths of flows without a context schema', () => {
+    const flow = createFlow({ contextSchema: undefined });
+    flow.steps[1].view.message = '{{context.anything.goes}}';
+
+    expect(new FlowOrchestrator().compile(flow as never).errors).toEqual([]);
+  });
+});
+
+describe('FlowOrchestrator plugins', () => {
+  const createPluginManager = (...plugins: Array<Record<string, unknown>>) => {
+    const byId = new Map(plugins.map(plugin => [plugin.id as string, plugin]));
+    return { getPlugin: (id: string) => byId.get(id) as FlowPlugin | undefined };
+  };
+
+  const createPluginFlow = (extra: Record<string, unknown> = {}, invoke?: Record<string, unknown>) => ({
+    id: 'plugin-flow',
+    name: 'Plugin Flow',
+    initialStep: 'form',
+    context: { premium: 0, quote: null },
+    ...extra,
+    steps: [
+      {
+        id: 'form',
+        name: 'Form',
+        view: { type: 'form' },
+        navigation: { onNext: invoke ? 'quote' : { target: 'review', guard: 'isAdult', actions: 'track' } }
+      },
+      {
+        id: 'quote',
+        name: 'Quote',
+        view: { type: 'loading' },
+        ...(invoke ? { invoke: { onDone: 'review', onError: 'failed', ...invoke } } : {}),
+        navigation: {}
+      },
+      { id: 'review', name: 'Review', view: { type: 'display' }, navigation: {} },
+      { id: 'failed', name: 'Failed', view: { type: 'error' }, navigation: {} }
+    ]
+  });
+
+  const quoteActor = {
+    id: 'premium-quote',
+    type: 'actor',
+    version: '1.2.0',
+    createActor: vi.fn(async (config: Record<string, unknown>) =>
+      fromPromise(async ({ input }: { input: { age: number } }) => ({ premium: input.age * Number(config.rate ?? 1) }))
+    )
+  };
+
+  it('should run the action and guard plugins flows reference by type', () => {
+    const track = { id: 'audit-log', type: 'action', version: '1.0.0', execute: vi.fn() };
+    const adult = {
+      id: 'age-check',
+      type: 'guard',
+      version: '1.0.0',
+      evaluate: vi.fn((config: Record<string, unknown>, _context: unknown, event: { data: { age: number } }) =>
+        event.data.age >= Number(config.minimum))
+    };
+
+    const machine = new FlowOrchestrator()
+      .usePluginManager(createPluginManager(track, adult))
+      .orchestrate(createPluginFlow({
+        plugins: { 'audit-log': { type: 'action' }, 'age-check': { type: 'guard', version: '^1.0.0' } },
+        actions: { track: { type: 'audit-log', config: { channel: 'quotes' } } },
+        guards: { isAdult: { type: 'age-check', config: { minimum: 18 } } }
+      }));
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT', data: { age: 16 } });
+    expect(actor.getSnapshot().value).toBe('form');
+
+    actor.send({ type: 'NEXT', data: { age: 30 } });
+    expect(actor.getSnapshot().value).toBe('review');
+    expect(track.execute).toHaveBeenCalledTimes(1);
+    expect(track.execute).toHaveBeenCalledWith(
+      { channel: 'quotes' },
+      expect.objectContaining({ premium: 0 }),
+      { type: 'NEXT', data: { age: 30 } }
+    );
+    actor.stop();
+  });
+
+  it('should invoke the actor logic of actor plugins by src or actor type', async () => {
+    const orchestrator = new FlowOrchestrator().usePluginManager(createPluginManager(quoteActor));
+
+    const actions = { saveQuote: { type: 'assign', target: 'quote', value: '{{event.output}}' } };
+
+    for (const [extra, src, premium] of [
+      [{ actions }, 'premium-quote', 40],
+      [{ actions, actors: { quote: { type: 'premium-quote', config: { rate: 2 } } } }, 'quote', 80]
+    ] as const) {
+      const machine = orchestrator.orchestrate(
+        createPluginFlow(extra, { src, input: { age: 40 }, onDone: { target: 'review', actions: 'saveQuote' } })
+      );
+      const actor = createActor(machine).start();
+      actor.send({ type: 'NEXT' });
+      const snapshot = await waitFor(actor, state => state.value === 'review');
+
+      expect(snapshot.context.quote).toEqual({ premium });
+      actor.stop();
+    }
+
+    expect(quoteActor.createActor).toHaveBeenNthCalledWith(1, { src: 'premium-quote' });
+    expect(quoteActor.createActor).toHaveBeenNthCalledWith(2, { rate: 2, src: 'quote' });
+  });
+
+  it('should reject flows whose plugins are not loaded', () => {
+    const orchestrator = new FlowOrchestrator().usePluginManager(createPluginManager(quoteActor));
+
+    expect(() => orchestrator.orchestrate(createPluginFlow({
+      plugins: {
+        'premium-quote': { type: 'actor', version: '^2.0.0' },
+        'address-lookup': { type: 'tool' }
+      }
+    }))).toThrow(
+      'Plugin "premium-quote" has version 1.2.0, expected ^2.0.0, Plugin "address-lookup" is not loaded'
+    );
+    expect(() => orchestrator.orchestrate(createPluginFlow({
+      actors: { quote: { type: 'document-generator' } }
+    }))).toThrow('Actor "quote" has unknown type "document-generator"');
+  });
+
+  it('should reject flows referencing plugins that are not loaded', () => {
+    const orchestrator = new FlowOrchestrator().usePluginManager(createPluginManager(quoteActor));
+
+    expect(() => orchestrator.orchestrate(createPluginFlow({}, { src: 'address-lookup' }))).toThrow(
+      'Step "quote" invokes actor "address-lookup" which is not declared, registered or loaded'
+    );
+    expect(() => orchestrator.orchestrate(createPluginFlow({}, { src: 'tool:address-lookup' }))).toThrow(
+      'Step "quote" invokes actor "tool:address-lookup" which is not declared, registered or loaded'
+    );
+    expect(() => orchestrator.orchestrate(createPluginFlow({
+      actions: { lookup: { type: 'tool', tool: 'address-lookup' } }
+    }))).toThrow('Action "lookup" calls tool "address-lookup" which is not loaded');
+
+    // Without a plugin manager, no declared plugin is loaded
+    expect(() => new FlowOrchestrator().orchestrate(createPluginFlow({
+      plugins: { 'premium-quote': { type: 'actor' } }
+    }))).toThrow('Plugin "premium-quote" is not loaded');
+  });
+
+  it('should dispatch lifecycle callbacks of plugins for every running flow', async () => {
+    const calls: string[] = [];
+    const audit = {
+      id: 'audit-log',
+      type: 'action',
+      onFlowStart: ({ flowId }: FlowLifecycleEvent) => {
+        calls.push(`start ${flowId}`);
+      },
+      onStepEnter: ({ stepId }: FlowLifecycleEvent) => {
+        calls.push(`enter ${stepId}`);
+      },
+      onStepExit: ({ stepId }: FlowLifecycleEvent) => {
+        calls.push(`exit ${stepId}`);
+      },
+      onTransition: ({ from, to }: FlowLifecycleEvent) => {
+        calls.push(`${from} -> ${to}`);
+      },
+      onError: ({ stepId, error }: FlowLifecycleEvent) => {
+        calls.push(`error ${stepId}: ${error?.message}`);
+      },
+      onFlowComplete: ({ output }: FlowLifecycleEvent) => {
+        calls.push(`complete ${JSON.stringify(output)}`);
+      }
+    };
+    const faulty = {
+      id: 'session-timeout',
+      type: 'action',
+      onStepEnter: () => {
+        throw new Error('timer unavailable');
+      }
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const charge = vi.fn().mockRejectedValueOnce(new Error('Card declined')).mockResolvedValue({ paid: true });
+
+    const machine = new FlowOrchestrator()
+      .registerActor('charge', fromPromise(charge))
+      .usePluginManager({ getPlugin: () => undefined, getPlugins: () => [audit, faulty] })
+      .orchestrate({
+        id: 'checkout',
+        name: 'Checkout',
+        initialStep: 'payment',
+        context: {},
+        steps: [
+          { id: 'payment', name: 'Payment', view: { type: 'form' }, navigation: { onNext: 'charging' } },
+          {
+            id: 'charging',
+            name: 'Charging',
+            view: { type: 'loading' },
+            invoke: { src: 'charge', onDone: 'done', onError: 'payment' },
+            navigation: {}
+          },
+          { id: 'done', name: 'Done', view: { type: 'success' }, final: true, output: { paid: true }, navigation: {} }
+        ]
+      });
+
+    const actor = createActor(machine).start();
+    actor.send({ type: 'NEXT' });
+    await waitFor(actor, state => state.value === 'payment' && state.context.error !== undefined);
+    actor.send({ type: 'NEXT' });
+    await waitFor(actor, state => state.status === 'done');
+
+    expect(calls).toEqual([
+      'start checkout',
+      'enter payment',
+      'exit payment',
+      'enter charging',
+      'payment -> charging',
+      'exit charging',
+      'error charging: Card declined',
+      'enter payment',
+      'charging -> payment',
+      'exit payment',
+      'enter charging',
+      'payment -> charging',
+      'exit charging',
+      'enter done',
+      'charging -> done',
+      'complete {"paid":true}',
+      'exit done'
+    ]);
+    expect(warn).toHaveBeenCalledWith('Plugin session-timeout onStepEnter failed:', expect.any(Error));
+    warn.mockRestore();
+  });
+});
+
+describe('FlowOrchestrator tools', () => {
+  const addressLookup = {
+    id: 'address-lookup',
+    type: 'tool',
+    inputSchema: {
+      type: 'object',
+      properties: { postcode: { type: 'string', pattern: '^[0-9]{5}$' } },
+      required: ['postcode']
+    },
+    outputSchema: { type: 'object', required: ['city'] },
+    execute: vi.fn(async (_config: Record<string, unknown>, input: { postcode: string }) =>
+      input.postcode === '99999' ? { street: 'Unknown' } : { city: 'Berlin', district: input.postcode })
+  };
+  const premiumCalculator = {
+    id: 'premium-calculator',
+    type: 'tool',
+    execute: vi.fn(async (_config: Record<string, unknown>, input: { age: number }) => ({ total: input.age * 3 }))
+  };
+
+  const createOrchestrator = () => new FlowOrchestrator().usePluginManager({
+    getPlugin: (id: string) => [addressLookup, premiumCalculator].find(tool => tool.id === id) as FlowPlugin | undefined
+  });
+
+  const createToolFlow = (first: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+    id: 'tool-flow',
+    name: 'Tool Flow',
+    initialStep: 'address',
+    context: { postcode: '10115', address: null, premium: 0 },
+    ...extra,
+    steps: [
+      { id: 'address', name: 'Address', view: { type: 'form' }, navigation: { onNext: 'review' }, ...first },
+      { id: 'review', name: 'Review', view: { type: 'display' }, navigation: {} },
+      { id: 'failed', name: 'Failed', view: { type: 'error' }, navigation: {} }
+    ]
+  });
+
+  it('should call tools from hooks and actions and map their results into context', async () => {
+    const machine = createOrchestrator().orchestrate(createToolFlow(
+      {
+        hooks: {
+          before: [{
+            id: 'lookup',
+            type: 'tool',
+            tool: 'address-lookup',
+            parameters: { postcode: '{{context.postcode}}' },
+            updateContext: 'address'
+          }]
+        },
+        navigation: { onNext: { target: 'review', actions: 'price' } }
+      },
+      {
+        actions: {
+          price: {
+            type: 'tool',
+            tool: 'premium-calculator',
+            toolName: 'calculate',
+            parameters: { age: '{{event.data.age}}' },
+            mapResult: { premium: '$.total' }
+          }
+        }
+      }
+    ));
+
+    const actor = createActor(machine).start();
+    await waitFor(actor, state => state.context.address !== null);
+    expect(actor.getSnapshot().context.address).toEqual({ city: 'Berlin', district: '10115' });
+    expect(addressLookup.execute).toHaveBeenLastCalledWith(
+      { toolName: 'address-lookup', parameters: { postcode: '10115' } },
+      { postcode: '10115' }
+    );
+
+    actor.send({ type: 'NEXT', data: { age: 40 } });
+    const snapshot = await waitFor(actor, state => state.context.premium !== 0);
+    expect(snapshot.value).toBe('review');
+    expect(snapshot.context.premium).toBe(120);
+    expect(premiumCalculator.execute).toHaveBeenCalledWith({ toolName: 'calculate', parameters: { age: 40 } }, { age: 40 });
+    expect(actor.getSnapshot().context.address).toEqual({ city: 'Berlin', district: '10115' });
+    actor.stop();
+  });
+
+  it('should invoke tools by src and fail on input or output not matching their schemas', async () => {
+    const orchestrator = createOrchestrator();
+    const invoke = {
+      src: 'tool:address-lookup',
+      input: { postcode: '{{context.postcode}}' },
+      mapResult: { city: '$.city' },
+      onDone: 'review',
+      onError: 'failed'
+    };
+
+    const run = async (postcode: string) => {
+      const machine = orchestrator.orchestrate(createToolFlow({ invoke }, { context: { postcode } }));
+      const actor = createActor(machine).start();
+      const snapshot = await waitFor(actor, state => state.value !== 'address');
+      actor.stop();
+      return snapshot;
+    };
+
+    const done = await run('10115');
+    expect(done.value).toBe('review');
+    expect(done.context.city).toBe('Berlin');
+
+    const invalidInput = await run('10');
+    expect(invalidInput.value).toBe('failed');
+    expect((invalidInput.context.error as { message: string }).message).toMatch(
+      /^Tool "address-lookup" input does not match its input schema: \/postcode: must match pattern/
+    );
+
+    const invalidOutput = await run('99999');
+    expect(invalidOutput.value).toBe('failed');
+    expect((invalidOutput.context.error as { message: string }).message).toBe(
+      "Tool \"address-lookup\" output does not match its output schema: #/required: must have required property 'city'"
+    );
+  });
+
+  it('should reject tool hooks and actions without a tool', () => {
+    const orchestrator = createOrchestrator();
+
+    expect(() => orchestrator.orchestrate(createToolFlow(
+      { hooks: { after: [{ id: 'generate', type: 'condition', expression: true, onTrue: [{ id: 'document', type: 'tool' }] }] } },
+      { actions: { price: { type: 'tool', parameters: { age: 40 } } } }
+    ))).toThrow(
+      'Step "address" tool hook "document" must have a string "tool" field, Tool action "price" must have a string "tool" field'
+    );
+  });
+});
+
 describe('SchemaValidator', () => {
   it('should validate valid flow configuration', () => {
     const validConfig = {
@@ -165,4 +1846,163 @@ describe('RuntimeTypeValidator', () => {
     expect(result.valid).toBe(false);
     expect(result.errors.length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+});
+
+describe('ResultMapper', () => {
+  const response = { user: { id: 7, name: 'Jane' } };
+
+  it('should map results to context patches', () => {
+    expect(resultMapper.mapResult(response, { 'customer.id': '$.user.id' })).toEqual([
+      { op: 'set', path: 'customer.id', value: 7 }
+    ]);
+  });
+
+  it('should still write mapped results into a given context', () => {
+    const context: Record<string, unknown> = { customer: { plan: 'pro' } };
+
+    expect(resultMapper.mapResult(response, { 'customer.id': '$.user.id', raw: '$' }, context)).toBeUndefined();
+    expect(context).toEqual({ customer: { plan: 'pro', id: 7 }, raw: response });
+  });
+});
+
+describe('FormValidator', () => {
+  it('should check types, ranges and options with custom messages', () => {
+    const result = formValidator.validate(
+      {
+        fields: [
+          { name: 'age', type: 'number', label: 'Age', min: 18, validation: { messages: { min: 'You must be an adult' } } },
+          { name: 'plan', type: 'select', label: 'Plan', options: [{ value: 'basic', label: 'Basic' }] },
+          { name: 'terms', type: 'checkbox', label: 'Terms', required: true },
+          { name: 'code', type: 'text', label: 'Code', validation: { pattern: '^[A-Z]{3}$' } },
+          { name: 'nickname', type: 'text', label: 'Nickname' }
+        ]
+      },
+      { age: '16', plan: 'gold', terms: false, code: 'ab1' }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(Object.keys(result.errors)).toEqual(['age', 'plan', 'terms', 'code']);
+    expect(result.errors.age[0].message).toBe('You must be an adult');
+    expect(result.errors.plan[0].rule).toBe('options');
+    expect(result.errors.terms[0].rule).toBe('required');
+    expect(result.errors.code[0].rule).toBe('pattern');
+  });
+
+  it('should compile each pattern once and fail fields with invalid patterns', () => {
+    const validator = new FormValidator();
+    const view = { fields: [{ name: 'zip', type: 'text', label: 'ZIP', validation: { pattern: '[0-9' } }] } as never;
+
+    for (const zip of ['1234', '5678']) {
+      const result = validator.validate(view, { zip });
+      expect(result.errors.zip[0].rule).toBe('pattern');
+    }
+    expect(validator.compilePattern('[0-9')).toBeNull();
+    expect(validator.compilePattern('^[0-9]+$')).toBe(validator.compilePattern('^[0-9]+$'));
+  });
+
+  it('should check file size and accepted types', () => {
+    const view = {
+      fields: [{ name: 'document', type: 'file' as const, label: 'Document', maxSize: '1MB', accept: '.pdf,image/*' }]
+    };
+
+    expect(formValidator.validate(view, { document: { name: 'id.png', size: 2048, type: 'image/png' } }).valid).toBe(true);
+    expect(formValidator.validate(view, { document: { name: 'id.pdf', size: 2 * 1024 ** 2 } }).errors.document[0].rule)
+      .toBe('maxSize');
+    expect(formValidator.validate(view, { document: [{ name: 'id.docx', size: 10 }] }).errors.document[0].rule)
+      .toBe('accept');
+  });
+
+  it('should resolve field conditions and options for the current data', () => {
+    const [company, plan] = formValidator.resolveFields(
+      {
+        fields: [
+          { name: 'company', type: 'text', label: 'Company', visibleWhen: { '==': [{ var: 'type' }, 'business'] } },
+          { name: 'plan', type: 'select', label: 'Plan', options: { from: '{{context.plans}}' }, disabledWhen: { var: 'context.readOnly' } }
+        ]
+      },
+      { type: 'individual' },
+      { plans: ['basic', 'premium'], readOnly: true }
+    );
+
+    expect(company.visible).toBe(false);
+    expect(plan).toMatchObject({
+      visible: true,
+      disabled: true,
+      required: false,
+      options: [{ value: 'basic', label: 'basic' }, { value: 'premium', label: 'premium' }]
+    });
+  });
+
+  it('should evaluate cross-field rules against the data and context', () => {
+    const view = {
+      rules: [{ expression: { '<=': [{ var: 'amount' }, { var: 'context.limit' }] }, message: 'Amount exceeds your limit' }]
+    };
+
+    expect(formValidator.validate(view, { amount: 500 }, { limit: 1000 }).valid).toBe(true);
+    expect(formValidator.validate(view, { amount: 1500 }, { limit: 1000 }).errors).toEqual({
+      $form: [{ field: '$form', rule: 'rule', message: 'Amount exceeds your limit' }]
+    });
+  });
+});
+
+describe('TemplateParser', () => {
+  const templateParser = new TemplateParser();
+  const data = {
+    context: {
+      user: { name: 'jane doe', tags: ['vip', 'beta'] },
+      items: [{ sku: 'A1', price: 12.5 }, { sku: 'B2', price: 1200 }],
+      labels: { 'due date': '2024-03-05T10:00:00.000Z' }
+    },
+    event: { data: { amount: 42, nested: { ok: true } } }
+  };
+
+  it('should resolve a single expression to its raw value and keep the old syntax', () => {
+    expect(templateParser.parseValue('{{event.data}}', data)).toEqual({ amount: 42, nested: { ok: true } });
+    expect(templateParser.evaluate('{{event.data.amount}}', data)).toBe(42);
+    expect(templateParser.evaluate('{{context.missing}}', data)).toBe('{{context.missing}}');
+    expect(templateParser.parse('Hello {{ context.user.name }}, {{context.missing}}', data)).toBe('Hello jane doe, {{context.missing}}');
+    expect(templateParser.parse('Data: {{event.data.nested}}', data)).toBe('Data: {"ok":true}');
+  });
+
+  it('should index arrays and quoted keys', () => {
+    expect(templateParser.evaluate('{{context.items[1].sku}}', data)).toBe('B2');
+    expect(templateParser.evaluate('{{context.items.0.sku}}', data)).toBe('A1');
+    expect(templateParser.evaluate('{{context.user.tags[-1]}}', data)).toBe('beta');
+    expect(templateParser.evaluate("{{context.labels['due date'] | date: 'iso'}}", data)).toBe('2024-03-05T10:00:00.000Z');
+  });
+
+  it('should apply defaults and filters', () => {
+    expect(templateParser.parse("Hi {{context.user.nickname | default: 'Guest'}}", data)).toBe('Hi Guest');
+    expect(templateParser.evaluate('{{context.user.nickname | default: context.user.name | upper}}', data)).toBe('JANE DOE');
+    expect(templateParser.evaluate('{{context.user.tags | length}}', data)).toBe(2);
+    expect(templateParser.parse('{{context.items[1].price | currency}}', data)).toBe('$1,200.00');
+    expect(templateParser.parse("{{context.items[0].price | currency: 'EUR', 'en-GB'}}", data)).toBe('€12.50');
+    expect(templateParser.parse("{{context.labels['due date'] | date: 'long'}}", data)).toBe('March 5, 2024');
+    expect(templateParser.evaluate('{{event.data.nested | json}}', data)).toBe('{"ok":true}');
+    expect(templateParser.evaluate("{{context.user.name | default: 'a|b' | unknown}}", data)).toBe(
+      "{{context.user.name | default: 'a|b' | unknown}}"
+    );
+    expect(templateParser.parse("Total: {{context.items[0].price | currency: 'euros'}}", data)).toBe(
+      "Total: {{context.items[0].price | currency: 'euros'}}"
+    );
+    expect(templateParser.evaluate("{{context.labels['due date'] | date: 'weekly'}}", data)).toBe(
+      "{{context.labels['due date'] | date: 'weekly'}}"
+    );
+    expect(templateParser.extractVariables('{{context.user.name | upper}} {{context.items[0].sku}}')).toEqual([
+      'context.user.name',
+      'context.items[0].sku'
+    ]);
+  });
+
+  it('should compile templates once and reuse them', () => {
+    const parser = new TemplateParser();
+    const compiled = parser.compile('Hi {{context.user.name | upper}}!');
+
+    expect(parser.compile('Hi {{context.user.name | upper}}!')).toBe(compiled);
+    expect(compiled.expressions).toEqual([
+      { source: 'context.user.name | upper', path: 'context.user.name', filters: [{ name: 'upper', args: [] }] }
+    ]);
+    expect(compiled.whole).toBeUndefined();
+    expect(parser.compile('{{event.data}}').whole).toMatchObject({ path: 'event.data' });
+  });
+});
@@ -9,34 +9,39 @@
  * - Schema validation
  */
 
-import { createMachine } from 'xstate';
-import type { FlowConfig, Step, NavigationConfig } from '../types';
-
-// Error types for better error handling
-export class FlowOrchestrationError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public context?: Record<string, unknown>
-  ) {
-    super(message);
-    this.name = 'FlowOrchestrationError';
-  }
-}
-
-export class ValidationError extends FlowOrchestrationError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'VALIDATION_ERROR', context);
-    this.name = 'ValidationError';
-  }
-}
-
-export class ConfigurationError extends FlowOrchestrationError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'CONFIGURATION_ERROR', context);
-    this.name = 'ConfigurationError';
-  }
-}
+import { and, assign, createMachine, forwardTo, spawnChild, type AnyActorLogic, type AnyActorRef, type EventObject } from 'xstate';
+import type {
+  ContextPatch,
+  FlowConfig,
+  Step,
+  NavigationConfig,
+  InvokeConfig,
+  Hook,
+  SubFlowConfig,
+  PatchLogEntry,
+  TransitionBranch,
+  TransitionExplanation
+} from '../types';
+import { FlowCompiler, type FlowCompilation } from '../parser/flow-compiler';
+import { TemplateParser } from '../parser/template-parser';
+import { HttpClient } from '../utils/http-client';
+import { HookProcessor, HOOK_ERROR_EVENT, type HookPhase } from '../utils/hook-processor';
+import { ContextPatcher, PATCH_EVENT, UNDO_PATCH_EVENT } from '../utils/context-patch';
+import { setByPath } from '../utils/object-path';
+import { resultMapper } from '../utils/result-mapper';
+import { FIELD_ERRORS_PATH, FormValidator, type FormValidationResult } from '../validation/form-validator';
+import { SchemaValidator } from '../validation/schema-validator';
+import { ActorResolver } from './actor-resolver';
+import { ActionBuilder, type ActionHandler } from './action-builder';
+import { GuardBuilder, type GuardHandler } from './guard-builder';
+import { PluginResolver, type FlowPluginManager } from './plugin-resolver';
+import { ToolRunner } from './tool-runner';
+import { ErrorPolicy, ERROR_STATE_ID, RETRY_EVENT } from './error-policy';
+import { FlowHistory } from './flow-history';
+import { FlowLifecycle } from './flow-lifecycle';
+import { ConfigurationError, ValidationError } from './errors';
+
+export { FlowOrchestrationError, ValidationError, ConfigurationError } from './errors';
 
 // Validation result interface
 interface ValidationResult {
@@ -92,8 +97,44 @@ class ConsoleLogger implements Logger {
   }
 }
 
+// Machine implementations collected while building states
+interface MachineImplementations {
+  actors: Record<string, AnyActorLogic>;
+  rootEvents: Record<string, unknown>;
+  // Path of state keys from the root to every step (and the built-in error state)
+  statePaths: Map<string, string[]>;
+  errorPolicy: ErrorPolicy;
+  history: FlowHistory;
+  lifecycle: FlowLifecycle;
+}
+
+// Resolves a step id to an XState target relative to the state owning the transition
+type TargetResolver = (target: string) => string;
+
+// Semantic navigation events and the XState events they map to
+const NAVIGATION_EVENTS: Record<string, string> = {
+  onNext: 'NEXT',
+  onBack: 'BACK',
+  onError: 'ERROR',
+  onCancel: 'CANCEL'
+};
+
 export class FlowOrchestrator {
   private logger: Logger;
+  private templateParser: TemplateParser;
+  private actorResolver: ActorResolver;
+  private hookProcessor: HookProcessor;
+  private actionBuilder: ActionBuilder;
+  private guardBuilder: GuardBuilder;
+  private pluginResolver: PluginResolver;
+  private toolRunner: ToolRunner;
+  private patcher: ContextPatcher;
+  private schemaValidator: SchemaValidator;
+  private formValidator: FormValidator;
+  private flowCompiler: FlowCompiler;
+  private flows = new Map<string, FlowConfig>();
+  // Flow ids whose machines are being created, to detect sub-flow cycles
+  private flowStack: string[] = [];
 
   constructor(logger?: Logger | boolean) {
     if (typeof logger === 'boolean') {
@@ -101,6 +142,72 @@ export class FlowOrchestrator {
     } else {
       this.logger = logger || new SilentLogger();
     }
+
+    this.templateParser = new TemplateParser();
+    const httpClient = new HttpClient(this.templateParser);
+    this.pluginResolver = new PluginResolver();
+    this.schemaValidator = new SchemaValidator();
+    this.toolRunner = new ToolRunner(this.templateParser, this.pluginResolver, this.schemaValidator);
+    this.actorResolver = new ActorResolver(this.templateParser, httpClient, this.pluginResolver, this.toolRunner);
+    this.patcher = new ContextPatcher();
+    this.hookProcessor = new HookProcessor(this.templateParser, httpClient, this.patcher, this.toolRunner);
+    this.actionBuilder = new ActionBuilder(this.templateParser, this.patcher, this.pluginResolver, this.toolRunner);
+    this.guardBuilder = new GuardBuilder(this.pluginResolver);
+    this.formValidator = new FormValidator(this.templateParser);
+    this.flowCompiler = new FlowCompiler(this.templateParser);
+  }
+
+  /**
+   * Register actor logic that steps can invoke by `src`
+   */
+  registerActor(src: string, logic: AnyActorLogic): this {
+    this.actorResolver.register(src, logic);
+    this.logger.debug(`Registered actor: ${src}`);
+    return this;
+  }
+
+  /**
+   * Register a handler for a custom `FlowConfig.actions` type
+   */
+  registerAction(type: string, handler: ActionHandler): this {
+    this.actionBuilder.register(type, handler);
+    this.logger.debug(`Registered action handler: ${type}`);
+    return this;
+  }
+
+  /**
+   * Register a handler for a custom `FlowConfig.guards` type
+   */
+  registerGuard(type: string, handler: GuardHandler): this {
+    this.guardBuilder.register(type, handler);
+    this.logger.debug(`Registered guard handler: ${type}`);
+    return this;
+  }
+
+  /**
+   * Run the plugins of a plugin manager for the actors, actions, guards and tools referencing
+   * them by id; the plugins a flow declares must be loaded when it is orchestrated
+   */
+  usePluginManager(pluginManager: FlowPluginManager): this {
+    this.pluginResolver.use(pluginManager);
+    this.logger.debug('Using plugin manager');
+    return this;
+  }
+
+  /**
+   * Context patches applied by a running flow actor, oldest first
+   */
+  getPatchLog(actor: AnyActorRef): PatchLogEntry[] {
+    return this.patcher.getLog(actor);
+  }
+
+  /**
+   * Register a flow that steps can embed as a sub-flow by id
+   */
+  registerFlow(flowConfig: FlowConfig): this {
+    this.flows.set(flowConfig.id, flowConfig);
+    this.logger.debug(`Registered flow: ${flowConfig.id}`);
+    return this;
   }
 
   /**
@@ -169,6 +276,10 @@ export class FlowOrchestrator {
         );
       }
 
+      if (structureValidation.warnings.length > 0) {
+        this.logger.warn('Flow structure has warnings', { warnings: structureValidation.warnings });
+      }
+
       // Step 3: Create XState machine
       const machine = this.createMachine(mergedConfig);
       
@@ -189,6 +300,47 @@ export class FlowOrchestrator {
     }
   }
 
+  /**
+   * Get the ordered transition branches a step defines for a navigation event
+   * (semantic name like `onNext` or XState event like `NEXT`)
+   */
+  getTransitionBranches(flowConfig: FlowConfig, stepId: string, event = 'onNext'): TransitionBranch[] {
+    const step = this.flattenSteps(flowConfig.steps).find(candidate => candidate.id === stepId);
+    if (!step) {
+      throw new ConfigurationError(`Step "${stepId}" not found in flow "${flowConfig.id}"`, { stepId });
+    }
+
+    return this.normalizeBranches(step.navigation?.[this.toSemanticEvent(step, event)]);
+  }
+
+  /**
+   * Evaluate a step's transition branches in order for the given context and event,
+   * reporting which guards pass and which branch XState would take
+   */
+  explainTransition(
+    flowConfig: FlowConfig,
+    stepId: string,
+    event = 'onNext',
+    context: Record<string, unknown> = flowConfig.context,
+    eventObject: Record<string, unknown> = { type: NAVIGATION_EVENTS[event] || event }
+  ): TransitionExplanation {
+    const branches = this.getTransitionBranches(flowConfig, stepId, event);
+    const guards = this.guardBuilder.build(flowConfig);
+
+    const evaluations = branches.map(branch => ({
+      ...branch,
+      matched: !branch.guard || Boolean(guards[branch.guard]?.({ context, event: eventObject }))
+    }));
+    const taken = evaluations.find(branch => branch.matched);
+
+    return {
+      stepId,
+      event,
+      branches: evaluations,
+      taken: taken ? branches[taken.index] : null
+    };
+  }
+
   /**
    * Public method to validate flow configuration
    */
@@ -196,6 +348,16 @@ export class FlowOrchestrator {
     return this.validateFlowConfig(input);
   }
 
+  /**
+   * Compile the templates of a flow and check the context paths they and JSON Logic `var`s
+   * read against `contextSchema`, reporting unknown paths with their location
+   */
+  compile(flowConfig: FlowConfig): FlowCompilation {
+    // Context written by the engine itself is known without being declared
+    const enginePaths = [new FlowHistory(flowConfig).contextPath, new ErrorPolicy(flowConfig).contextPath, FIELD_ERRORS_PATH];
+    return this.flowCompiler.compile(flowConfig, enginePaths);
+  }
+
   /**
    * Validate flow configuration input
    */
@@ -253,38 +415,96 @@ export class FlowOrchestrator {
         warnings.push('Flow has no steps defined');
       }
 
-      // Validate each step
-      config.steps.forEach((step, index) => {
-        if (!step || typeof step !== 'object') {
-          errors.push(`Step at index ${index} must be an object`);
-          return;
-        }
+      this.validateSteps(config.steps, '', errors);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Validate the shape of each step, recursing into step groups (nested indexes read as `2.0`)
+   */
+  private validateSteps(steps: unknown[], prefix: string, errors: string[]): void {
+    steps.forEach((step, position) => {
+      const index = `${prefix}${position}`;
+
+      if (!step || typeof step !== 'object') {
+        errors.push(`Step at index ${index} must be an object`);
+        return;
+      }
+
+      const stepObj = step as Record<string, unknown>;
+
+      if (!stepObj.id || typeof stepObj.id !== 'string') {
+        errors.push(`Step at index ${index} must have a string "id" field`);
+      }
+
+      if (!stepObj.name || typeof stepObj.name !== 'string') {
+        errors.push(`Step at index ${index} must have a string "name" field`);
+      }
+
+      // Step groups, parallel steps and sub-flow steps render their children's views
+      const rendersView = stepObj.steps === undefined && stepObj.regions === undefined && stepObj.subFlow === undefined;
+      if (rendersView && (!stepObj.view || typeof stepObj.view !== 'object')) {
+        errors.push(`Step at index ${index} must have a "view" object`);
+      }
 
-        const stepObj = step as Record<string, unknown>;
-        
-        if (!stepObj.id || typeof stepObj.id !== 'string') {
-          errors.push(`Step at index ${index} must have a string "id" field`);
+      if (!stepObj.navigation || typeof stepObj.navigation !== 'object') {
+        errors.push(`Step at index ${index} must have a "navigation" object`);
+      }
+
+      if (stepObj.invoke !== undefined) {
+        const invoke = stepObj.invoke as Record<string, unknown> | null;
+        if (!invoke || typeof invoke !== 'object' || typeof invoke.src !== 'string' || !invoke.src) {
+          errors.push(`Step at index ${index} must have a string "src" field in "invoke"`);
         }
+      }
 
-        if (!stepObj.name || typeof stepObj.name !== 'string') {
-          errors.push(`Step at index ${index} must have a string "name" field`);
+      if (stepObj.subFlow !== undefined) {
+        const subFlow = stepObj.subFlow as Record<string, unknown> | null;
+        if (!subFlow || typeof subFlow !== 'object' || typeof subFlow.flowId !== 'string' || !subFlow.flowId) {
+          errors.push(`Step at index ${index} must have a string "flowId" field in "subFlow"`);
         }
+        if (stepObj.invoke !== undefined) {
+          errors.push(`Step at index ${index} cannot embed a sub-flow and invoke an actor at once`);
+        }
+      }
 
-        if (!stepObj.view || typeof stepObj.view !== 'object') {
-          errors.push(`Step at index ${index} must have a "view" object`);
+      if (stepObj.steps !== undefined) {
+        if (!Array.isArray(stepObj.steps) || stepObj.steps.length === 0) {
+          errors.push(`Step at index ${index} must have a non-empty "steps" array`);
+        } else {
+          if (stepObj.subFlow !== undefined || stepObj.final) {
+            errors.push(`Step at index ${index} cannot be a step group and a sub-flow or final step at once`);
+          }
+          this.validateSteps(stepObj.steps, `${index}.`, errors);
         }
+      }
 
-        if (!stepObj.navigation || typeof stepObj.navigation !== 'object') {
-          errors.push(`Step at index ${index} must have a "navigation" object`);
+      if (stepObj.regions !== undefined) {
+        if (!Array.isArray(stepObj.regions) || stepObj.regions.length === 0) {
+          errors.push(`Step at index ${index} must have a non-empty "regions" array`);
+        } else {
+          if (stepObj.steps !== undefined || stepObj.subFlow !== undefined || stepObj.final) {
+            errors.push(`Step at index ${index} cannot have regions and be a step group, sub-flow or final step`);
+          }
+          stepObj.regions.forEach((regionStep, position) => {
+            if (!regionStep || typeof regionStep !== 'object' || !Array.isArray((regionStep as Record<string, unknown>).steps)) {
+              errors.push(`Region at index ${index}.regions.${position} must be a step group with a "steps" array`);
+            }
+          });
+          this.validateSteps(stepObj.regions, `${index}.regions.`, errors);
         }
-      });
-    }
+      }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings
-    };
+      if (stepObj.join !== undefined && stepObj.join !== 'all' && stepObj.join !== 'any') {
+        errors.push(`Step at index ${index} must have "join" set to "all" or "any"`);
+      }
+    });
   }
 
   /**
@@ -294,9 +514,10 @@ export class FlowOrchestrator {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Check if initial step exists
-    const stepIds = config.steps.map((step: Step) => step.id);
-    if (!stepIds.includes(config.initialStep)) {
+    // Check if initial step exists (step ids are unique across all nesting levels)
+    const steps = this.flattenSteps(config.steps);
+    const stepIds = steps.map((step: Step) => step.id);
+    if (!config.steps.some(step => step.id === config.initialStep)) {
       errors.push(`Initial step "${config.initialStep}" not found in steps`);
     }
 
@@ -307,33 +528,153 @@ export class FlowOrchestrator {
       errors.push(`Duplicate step IDs found: ${duplicateIds.join(', ')}`);
     }
 
+    // Validate error handling; a step of the flow named `error` replaces the built-in error state
+    const usesBuiltInErrorState = new ErrorPolicy(config).usesBuiltInState();
+
+    for (const [owner, errorHandling] of [
+      ['Flow', config.errorHandling],
+      ...steps.map(step => [`Step "${step.id}"`, step.errorHandling] as const)
+    ] as const) {
+      if (!errorHandling) continue;
+      if (errorHandling.step !== undefined && !stepIds.includes(errorHandling.step)) {
+        errors.push(`${owner} error handling references non-existent step "${errorHandling.step}"`);
+      }
+      if (errorHandling.retry !== undefined && errorHandling.retry !== 'failedStep' && errorHandling.retry !== 'initialStep') {
+        errors.push(`${owner} error handling "retry" must be "failedStep" or "initialStep"`);
+      }
+    }
+
+    // Validate form fields: options are resolved when data is submitted
+    for (const step of steps) {
+      for (const field of step.view?.fields || []) {
+        const pattern = field.validation?.pattern;
+        if (pattern !== undefined && this.formValidator.compilePattern(pattern) === null) {
+          errors.push(`Field "${field.name}" of step "${step.id}" has an invalid pattern "${pattern}"`);
+        }
+        if (field.options !== undefined && !Array.isArray(field.options) && typeof field.options.from !== 'string') {
+          errors.push(`Field "${field.name}" of step "${step.id}" must have an options array or a "from" template`);
+        }
+      }
+    }
+
+    // Check template filters and context references; templates are compiled once here
+    for (const error of this.compile(config).errors) {
+      errors.push(`${error.location}: ${error.message}`);
+    }
+
+    const historyLimit = config.history?.limit;
+    if (historyLimit !== undefined && (!Number.isInteger(historyLimit) || historyLimit < 1)) {
+      errors.push('History "limit" must be a positive integer');
+    }
+
+    // Validate migrations: renamed steps and fallbacks of removed steps must exist in this version
+    for (const migration of config.migrations || []) {
+      if (typeof migration.from !== 'string' || migration.from.trim() === '') {
+        errors.push('Migration must have a "from" version range');
+        continue;
+      }
+      for (const [oldId, newId] of [
+        ...Object.entries(migration.renameSteps || {}),
+        ...Object.entries(migration.removedSteps || {})
+      ]) {
+        if (!stepIds.includes(newId)) {
+          errors.push(`Migration from "${migration.from}" maps step "${oldId}" to non-existent step "${newId}"`);
+        }
+      }
+    }
+
     // Validate step references
-    for (const step of config.steps) {
-      // Check navigation targets
-      if (step.navigation.onNext) {
-        const nextTarget = this.extractNavigationTarget(step.navigation.onNext);
-        if (nextTarget && !stepIds.includes(nextTarget)) {
-          errors.push(`Step "${step.id}" references non-existent next step "${nextTarget}"`);
+    for (const step of steps) {
+      // Check step group initial step and sub-flow references
+      if (step.steps && step.initialStep && !step.steps.some(child => child.id === step.initialStep)) {
+        errors.push(`Step group "${step.id}" initial step "${step.initialStep}" is not one of its child steps`);
+      }
+
+      if (step.output !== undefined && !step.final) {
+        errors.push(`Step "${step.id}" declares an "output" but is not a final step`);
+      }
+
+      if (step.subFlow) {
+        const { flowId } = step.subFlow;
+        if (flowId === config.id || this.flowStack.includes(flowId)) {
+          errors.push(`Step "${step.id}" embeds sub-flow "${flowId}" which creates a cycle`);
+        } else if (!this.flows.has(flowId)) {
+          errors.push(`Step "${step.id}" references unregistered sub-flow "${flowId}"`);
+        }
+      }
+
+      // Check every transition branch of navigation events and invoke results
+      for (const [label, navigation] of this.collectTransitions(step)) {
+        const branches = this.normalizeBranches(navigation);
+
+        for (const branch of branches) {
+          const where = branches.length > 1 ? ` in branch ${branch.index + 1}` : '';
+          if (!branch.target) {
+            errors.push(`Step "${step.id}" ${label} transition must have a "target"${where}`);
+          } else if (!stepIds.includes(branch.target) && !(usesBuiltInErrorState && branch.target === ERROR_STATE_ID)) {
+            errors.push(`Step "${step.id}" references non-existent ${label} step "${branch.target}"${where}`);
+          }
+        }
+
+        if (branches.length > 1) {
+          const firstDefault = branches.findIndex(branch => branch.isDefault);
+          if (firstDefault === -1) {
+            warnings.push(`Step "${step.id}" ${label} branches have no unguarded default branch`);
+          } else if (firstDefault < branches.length - 1) {
+            warnings.push(
+              `Step "${step.id}" ${label} branch ${firstDefault + 1} has no guard and shadows the branches after it`
+            );
+          }
         }
       }
 
-      if (step.navigation.onBack && !stepIds.includes(step.navigation.onBack)) {
-        errors.push(`Step "${step.id}" references non-existent back step "${step.navigation.onBack}"`);
+      if (step.invoke) {
+        if (!this.actorResolver.has(step.invoke.src, config)) {
+          errors.push(`Step "${step.id}" invokes actor "${step.invoke.src}" which is not declared, registered or loaded`);
+        }
       }
 
-      if (step.navigation.onError && !stepIds.includes(step.navigation.onError)) {
-        errors.push(`Step "${step.id}" references non-existent error step "${step.navigation.onError}"`);
+      // Check tool hooks
+      for (const hook of this.collectHooks(step)) {
+        if (hook.type !== 'tool') {
+          continue;
+        }
+        if (!hook.tool || typeof hook.tool !== 'string') {
+          errors.push(`Step "${step.id}" tool hook "${hook.id}" must have a string "tool" field`);
+        } else if (!this.toolRunner.has(hook.tool)) {
+          errors.push(`Step "${step.id}" hook "${hook.id}" calls tool "${hook.tool}" which is not loaded`);
+        }
+      }
+
+      // Check action references
+      for (const navigationConfig of this.collectNavigationConfigs(step)) {
+        const actionIds = typeof navigationConfig.actions === 'string'
+          ? [navigationConfig.actions]
+          : navigationConfig.actions || [];
+        for (const actionId of actionIds) {
+          if (!config.actions || !(actionId in config.actions)) {
+            errors.push(`Step "${step.id}" references non-existent action "${actionId}"`);
+          }
+        }
       }
 
       // Validate guards references
-      if (step.navigation.onNext && typeof step.navigation.onNext === 'object') {
-        const navigationConfig = step.navigation.onNext as NavigationConfig;
-        if (navigationConfig.guard && config.guards && !(navigationConfig.guard in config.guards)) {
+      for (const navigationConfig of this.collectNavigationConfigs(step)) {
+        if (navigationConfig.guard && (!config.guards || !(navigationConfig.guard in config.guards))) {
           errors.push(`Step "${step.id}" references non-existent guard "${navigationConfig.guard}"`);
         }
       }
     }
 
+    // Validate output schema
+    if (config.output) {
+      try {
+        this.schemaValidator.validate({}, config.output);
+      } catch (error) {
+        errors.push(`Flow output schema is invalid: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     // Validate guards
     if (config.guards) {
       const guardIds = Object.keys(config.guards);
@@ -341,10 +682,48 @@ export class FlowOrchestrator {
       if (duplicateGuards.length > 0) {
         errors.push(`Duplicate guard IDs found: ${duplicateGuards.join(', ')}`);
       }
+
+      for (const [guardId, guard] of Object.entries(config.guards)) {
+        if (!guard || typeof guard.type !== 'string') {
+          errors.push(`Guard "${guardId}" must have a string "type" field`);
+        } else if (!this.guardBuilder.has(guard.type)) {
+          errors.push(`Guard "${guardId}" has unknown type "${guard.type}"`);
+        } else {
+          const guardError = this.guardBuilder.check(guardId, guard);
+          if (guardError) {
+            errors.push(guardError);
+          }
+        }
+      }
+    }
+
+    // Validate plugins and actors
+    errors.push(...this.pluginResolver.check(config));
+
+    for (const [actorId, actor] of Object.entries(config.actors || {})) {
+      if (!actor || typeof actor.type !== 'string') {
+        errors.push(`Actor "${actorId}" must have a string "type" field`);
+      } else if (!this.actorResolver.hasType(actor.type)) {
+        errors.push(`Actor "${actorId}" has unknown type "${actor.type}"`);
+      }
     }
 
     // Validate actions
     if (config.actions) {
+      for (const [actionId, action] of Object.entries(config.actions)) {
+        if (!action || typeof action.type !== 'string') {
+          errors.push(`Action "${actionId}" must have a string "type" field`);
+        } else if (!this.actionBuilder.has(action.type)) {
+          errors.push(`Action "${actionId}" has unknown type "${action.type}"`);
+        } else if (action.type === 'tool') {
+          if (!action.tool || typeof action.tool !== 'string') {
+            errors.push(`Tool action "${actionId}" must have a string "tool" field`);
+          } else if (!this.toolRunner.has(action.tool)) {
+            errors.push(`Action "${actionId}" calls tool "${action.tool}" which is not loaded`);
+          }
+        }
+      }
+
       const actionIds = Object.keys(config.actions);
       const duplicateActions = actionIds.filter((id, index) => actionIds.indexOf(id) !== index);
       if (duplicateActions.length > 0) {
@@ -360,21 +739,117 @@ export class FlowOrchestrator {
   }
 
   /**
-   * Extract navigation target from navigation config
+   * Flatten steps and the children of step groups, depth first
    */
-  private extractNavigationTarget(navigation: string | NavigationConfig | NavigationConfig[]): string | null {
-    if (typeof navigation === 'string') {
-      return navigation;
+  private flattenSteps(steps: Step[]): Step[] {
+    return steps.flatMap(step => [
+      step,
+      ...this.flattenSteps(step.steps || []),
+      ...this.flattenSteps(step.regions || [])
+    ]);
+  }
+
+  /**
+   * Record the path of state keys from the root to every step
+   */
+  private collectStatePaths(steps: Step[], parentPath: string[], paths: Map<string, string[]>): Map<string, string[]> {
+    for (const step of steps) {
+      const path = [...parentPath, step.id];
+      paths.set(step.id, path);
+      this.collectStatePaths([...(step.steps || []), ...(step.regions || [])], path, paths);
     }
-    
-    if (navigation && typeof navigation === 'object') {
-      if (Array.isArray(navigation)) {
-        return navigation[0]?.target || null;
+    return paths;
+  }
+
+  /**
+   * Create a target resolver for transitions owned by a state whose parent is at `parentPath`.
+   * Siblings keep plain keys; steps elsewhere in the hierarchy are targeted by absolute id.
+   */
+  private createTargetResolver(flowConfig: FlowConfig, statePaths: Map<string, string[]>, parentPath: string[]): TargetResolver {
+    const parentKey = parentPath.join('.');
+    return (target: string) => {
+      const path = statePaths.get(target);
+      if (!path || path.slice(0, -1).join('.') === parentKey) {
+        return target;
       }
-      return (navigation as NavigationConfig).target || null;
+      return `#${flowConfig.id}.${path.join('.')}`;
+    };
+  }
+
+  /**
+   * Normalize a navigation target or navigation config(s) into its ordered branches
+   */
+  private normalizeBranches(navigation: unknown): TransitionBranch[] {
+    if (typeof navigation === 'string') {
+      return [{ index: 0, target: navigation, actions: [], isDefault: true }];
     }
-    
-    return null;
+
+    if (!navigation || typeof navigation !== 'object') {
+      return [];
+    }
+
+    const configs = (Array.isArray(navigation) ? navigation : [navigation]) as Partial<NavigationConfig>[];
+    return configs.map((config, index) => ({
+      index,
+      target: typeof config?.target === 'string' ? config.target : '',
+      ...(config?.guard ? { guard: config.guard } : {}),
+      actions: typeof config?.actions === 'string' ? [config.actions] : config?.actions || [],
+      isDefault: !config?.guard
+    }));
+  }
+
+  /**
+   * Collect a step's transitions (navigation events and invoke results) with a label for messages
+   */
+  private collectTransitions(step: Step): Array<[string, unknown]> {
+    const transitions: Array<[string, unknown]> = Object.entries(step.navigation || {}).map(([event, navigation]) => [
+      event.startsWith('on') && event.length > 2 ? event.charAt(2).toLowerCase() + event.slice(3) : event,
+      navigation
+    ]);
+
+    if (step.invoke) {
+      transitions.push(['invoke onDone', step.invoke.onDone], ['invoke onError', step.invoke.onError]);
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Map an XState event type (e.g. `NEXT`) back to the step's semantic navigation key
+   */
+  private toSemanticEvent(step: Step, event: string): string {
+    if (step.navigation && event in step.navigation) {
+      return event;
+    }
+
+    const semanticEvent = Object.keys(NAVIGATION_EVENTS).find(key => NAVIGATION_EVENTS[key] === event);
+    return semanticEvent || event;
+  }
+
+  /**
+   * Collect every navigation config object of a step (navigation events and invoke results)
+   */
+  private collectNavigationConfigs(step: Step): NavigationConfig[] {
+    const navigations: unknown[] = [...Object.values(step.navigation || {})];
+    if (step.invoke) {
+      navigations.push(step.invoke.onDone, step.invoke.onError);
+    }
+
+    return navigations
+      .flatMap(navigation => (Array.isArray(navigation) ? navigation : [navigation]))
+      .filter((navigation): navigation is NavigationConfig => Boolean(navigation) && typeof navigation === 'object');
+  }
+
+  /**
+   * Collect the hooks of a step, including the hooks of its condition hooks
+   */
+  private collectHooks(step: Step): Hook[] {
+    const collect = (hooks: unknown): Hook[] =>
+      (Array.isArray(hooks) ? hooks : [])
+        .filter((hook): hook is Hook => Boolean(hook) && typeof hook === 'object')
+        .flatMap(hook => [hook, ...collect(hook.onTrue), ...collect(hook.onFalse)]);
+
+    return collect([...(step.hooks?.before || []), ...(step.hooks?.after || [])]);
   }
 
   /**
@@ -383,9 +858,138 @@ export class FlowOrchestrator {
   private createMachine(config: FlowConfig): ReturnType<typeof createMachine> {
     this.logger.debug('Creating XState machine', { flowId: config.id });
 
-    const states = config.steps.reduce((acc: Record<string, unknown>, step: Step) => {
+    const lifecycle = new FlowLifecycle(config, this.pluginResolver);
+    const errorPolicy = new ErrorPolicy(config, lifecycle.enabled ? (error, args) => lifecycle.error(error, args) : undefined);
+    const history = new FlowHistory(config);
+    const implementations: MachineImplementations = {
+      actors: {},
+      rootEvents: {},
+      statePaths: this.collectStatePaths(
+        config.steps,
+        [],
+        new Map(errorPolicy.usesBuiltInState() ? [[ERROR_STATE_ID, [ERROR_STATE_ID]]] : [])
+      ),
+      errorPolicy,
+      history,
+      lifecycle
+    };
+
+    this.flowStack.push(config.id);
+    let states: Record<string, unknown>;
+    try {
+      states = this.createStepStates(config.steps, [], config, implementations);
+    } finally {
+      this.flowStack.pop();
+    }
+
+    return createMachine({
+      id: config.id,
+      initial: config.initialStep,
+      // Input (e.g. from a parent flow embedding this one) overrides the initial context
+      context: ({ input }: { input?: unknown }) => ({
+        ...config.context,
+        ...(input && typeof input === 'object' ? (input as Record<string, unknown>) : {})
+      }),
+      ...(lifecycle.enabled ? { entry: lifecycle.createStartAction() } : {}),
+      output: ({ context, event, self }: {
+        context: Record<string, unknown>;
+        event: EventObject & { output?: unknown };
+        self: AnyActorRef;
+      }) => {
+        const output = this.createFlowOutput(config, event.output ?? history.strip(context));
+        lifecycle.complete(output, { context, event, self });
+        return output;
+      },
+      on: {
+        // Hook failures not handled by the failing step itself
+        [HOOK_ERROR_EVENT]: {
+          target: `#${config.id}.${(implementations.statePaths.get(errorPolicy.targetFor()) as string[]).join('.')}`,
+          actions: errorPolicy.createRecordAction()
+        },
+        // Patches resolved after an action finished, and undo of the last patches
+        [PATCH_EVENT]: { actions: this.patcher.createEventAction() },
+        [UNDO_PATCH_EVENT]: { actions: this.patcher.createUndoAction() },
+        // Generic BACK, UNDO, REDO and jumps through the visited steps
+        ...(history.enabled
+          ? history.createTransitions(
+              config.steps,
+              stepId => `#${config.id}.${(implementations.statePaths.get(stepId) as string[]).join('.')}`
+            )
+          : {}),
+        ...implementations.rootEvents
+      },
+      states: {
+        ...states,
+        ...(errorPolicy.usesBuiltInState() ? { [ERROR_STATE_ID]: this.createErrorState(config, implementations) } : {})
+      }
+    }, {
+      actors: implementations.actors,
+      actions: this.actionBuilder.build(config),
+      guards: this.guardBuilder.build(config)
+    });
+  }
+
+  /**
+   * Create the built-in error state
+   */
+  private createErrorState(config: FlowConfig, implementations: MachineImplementations) {
+    const resolveTarget = this.createTargetResolver(config, implementations.statePaths, []);
+    const { lifecycle } = implementations;
+    return {
+      ...(lifecycle.enabled
+        ? { entry: lifecycle.createEnterAction({ id: ERROR_STATE_ID }), exit: lifecycle.createExitAction({ id: ERROR_STATE_ID }) }
+        : {}),
+      meta: {
+        view: {
+          type: 'error',
+          title: 'Error',
+          message: 'An error occurred',
+          actions: [
+            { type: 'button', label: 'Retry', event: 'RETRY' },
+            { type: 'button', label: 'Reset', event: 'RESET' }
+          ]
+        }
+      },
+      on: {
+        RETRY: { actions: implementations.errorPolicy.createRetryActions() },
+        [RETRY_EVENT]: implementations.errorPolicy.createRetryTransitions(this.flattenSteps(config.steps), resolveTarget),
+        RESET: config.initialStep
+      }
+    };
+  }
+
+  /**
+   * Check the output of a finished flow against `FlowConfig.output`.
+   * The output is the final step's `output`, or the whole context when it declares none.
+   */
+  private createFlowOutput(config: FlowConfig, output: unknown): unknown {
+    if (config.output) {
+      const result = this.schemaValidator.validate(output, config.output);
+      if (!result.valid) {
+        throw new ValidationError(
+          `Flow "${config.id}" output does not match its output schema: ${result.errors.join(', ')}`,
+          { errors: result.errors, output }
+        );
+      }
+    }
+
+    this.logger.info('Flow completed', { flowId: config.id });
+    return output;
+  }
+
+  /**
+   * Create the XState states map for sibling steps whose parent is at `parentPath`
+   */
+  private createStepStates(
+    steps: Step[],
+    parentPath: string[],
+    flowConfig: FlowConfig,
+    implementations: MachineImplementations,
+    region?: string
+  ): Record<string, unknown> {
+    return steps.reduce((acc: Record<string, unknown>, step: Step) => {
       try {
-        acc[step.id] = this.createStepState(step, config);
+        acc[step.id] = this.createStepState(step, parentPath, flowConfig, implementations, region);
         this.logger.debug(`Created state for step: ${step.id}`);
       } catch (error) {
         this.logger.error(`Failed to create state for step: ${step.id}`, { 
@@ -398,50 +1002,77 @@ export class FlowOrchestrator {
       }
       return acc;
     }, {} as Record<string, unknown>);
-
-    return createMachine({
-      id: config.id,
-      initial: config.initialStep,
-      context: config.context,
-      states: {
-        ...states,
-        error: {
-          meta: {
-            view: {
-              type: 'error',
-              title: 'Error',
-              message: 'An error occurred',
-              actions: [
-                { type: 'button', label: 'Retry', event: 'RETRY' },
-                { type: 'button', label: 'Reset', event: 'RESET' }
-              ]
-            }
-          },
-          on: {
-            RETRY: config.initialStep,
-            RESET: config.initialStep
-          }
-        }
-      }
-    });
   }
 
   /**
    * Create XState state from step configuration
+   *
+   * Step groups become compound states, steps with regions become parallel states and
+   * sub-flow steps invoke the child flow machine. For all of them, `navigation.onNext` is
+   * taken when they complete (a final child step is reached, the regions join or the
+   * sub-flow finishes); their other navigation events apply from any child step.
+   *
+   * Navigation of steps inside a parallel region only reacts to events without a `region`
+   * or with the id of that region, so regions can be driven independently.
    */
-  private createStepState(step: Step, flowConfig: FlowConfig) {
+  private createStepState(
+    step: Step,
+    parentPath: string[],
+    flowConfig: FlowConfig,
+    implementations: MachineImplementations,
+    region?: string
+  ) {
     this.logger.debug(`Creating step state: ${step.id}`);
 
+    const resolveTarget = this.createTargetResolver(flowConfig, implementations.statePaths, parentPath);
     const state: Record<string, unknown> = {
       meta: {
         view: step.view
       }
     };
 
+    if (step.final) {
+      state.type = 'final';
+      if (step.output !== undefined) {
+        state.output = ({ context, event }: { context: Record<string, unknown>; event: Record<string, unknown> }) =>
+          this.templateParser.parseValue(step.output, { context, event });
+      }
+    }
+
+    // Step group children
+    if (step.steps) {
+      state.initial = step.initialStep || step.steps[0].id;
+      state.states = this.createStepStates(step.steps, [...parentPath, step.id], flowConfig, implementations, region);
+    }
+
+    // Parallel regions, each one a step group scoped to its own events
+    if (step.regions) {
+      state.type = 'parallel';
+      state.states = step.regions.reduce((acc: Record<string, unknown>, regionStep: Step) => {
+        acc[regionStep.id] = this.createStepState(regionStep, [...parentPath, step.id], flowConfig, implementations, regionStep.id);
+        return acc;
+      }, {} as Record<string, unknown>);
+    }
+
     // Navigation
     if (step.navigation) {
       try {
-        state.on = this.createNavigation(step.navigation, flowConfig);
+        const { onNext, ...navigation } = step.navigation;
+        if (step.regions && onNext !== undefined && step.join === 'any') {
+          // The first region to reach a final step leaves the parallel state
+          const resolveFromRegion = this.createTargetResolver(flowConfig, implementations.statePaths, [...parentPath, step.id]);
+          for (const regionState of Object.values(state.states as Record<string, Record<string, unknown>>)) {
+            regionState.onDone = this.createTransition(onNext, resolveFromRegion);
+          }
+          state.on = this.createNavigation(navigation, resolveTarget, region);
+        } else if ((step.steps || step.regions) && onNext !== undefined) {
+          state.onDone = this.createTransition(onNext, resolveTarget);
+          state.on = this.createNavigation(navigation, resolveTarget, region);
+        } else if (step.subFlow) {
+          state.on = this.createNavigation(navigation, resolveTarget, region);
+        } else {
+          state.on = this.createNavigation(step.navigation, resolveTarget, region);
+        }
       } catch (error) {
         throw new ConfigurationError(
           `Failed to create navigation for step "${step.id}": ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -450,10 +1081,55 @@ export class FlowOrchestrator {
       }
     }
 
-    // Hooks (after actions)
-    if (step.hooks?.after) {
+    // Embedded sub-flow
+    if (step.subFlow) {
+      try {
+        const invoke = this.createSubFlowInvoke(step, step.subFlow, resolveTarget, implementations);
+        state.invoke = invoke;
+        // Forward user events the step does not handle itself to the child flow
+        state.on = {
+          ...(state.on as Record<string, unknown>),
+          '*': {
+            guard: ({ event }: { event: { type: string } }) =>
+              !event.type.startsWith('xstate.') && !event.type.startsWith('xflows.'),
+            actions: forwardTo(invoke.id)
+          }
+        };
+      } catch (error) {
+        throw new ConfigurationError(
+          `Failed to create sub-flow for step "${step.id}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { stepId: step.id, subFlow: step.subFlow }
+        );
+      }
+    }
+
+    // Invoked actor
+    if (step.invoke) {
       try {
-        state.after = this.createHooks(step.hooks.after);
+        state.invoke = this.createInvoke(step, step.invoke, flowConfig, implementations, resolveTarget);
+      } catch (error) {
+        throw new ConfigurationError(
+          `Failed to create invoke for step "${step.id}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { stepId: step.id, invoke: step.invoke }
+        );
+      }
+    }
+
+    // Hooks (before as entry actions, after as exit actions)
+    if (step.hooks) {
+      try {
+        const before = this.createHooks(step, 'before', step.hooks.before || [], implementations);
+        const after = this.createHooks(step, 'after', step.hooks.after || [], implementations);
+
+        if (before.actions.length > 0) {
+          state.entry = before.actions;
+        }
+        if (after.actions.length > 0) {
+          state.exit = after.actions;
+        }
+        if (before.invoke.length > 0) {
+          state.invoke = [...(state.invoke ? [state.invoke] : []), ...before.invoke];
+        }
       } catch (error) {
         throw new ConfigurationError(
           `Failed to create hooks for step "${step.id}": ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -462,42 +1138,113 @@ export class FlowOrchestrator {
       }
     }
 
+    this.applyErrorHandling(step, state, flowConfig, implementations, resolveTarget);
+    this.applyFormValidation(step, state, region);
+
+    if (implementations.history.records(step, region)) {
+      state.entry = [implementations.history.createRecordAction(step.id), ...((state.entry as unknown[]) || [])];
+    }
+
+    // Plugins observe the step before its hooks run and after they ran
+    if (implementations.lifecycle.enabled) {
+      state.entry = [implementations.lifecycle.createEnterAction(step), ...((state.entry as unknown[]) || [])];
+      state.exit = [...((state.exit as unknown[]) || []), implementations.lifecycle.createExitAction(step)];
+    }
+
     return state;
   }
 
   /**
-   * Create navigation configuration
+   * Validate the data sent with NEXT against the step's form: invalid data keeps the flow on
+   * the step with the field errors in context, which are cleared when the step is left
    */
-  private createNavigation(navigation: Record<string, unknown>, flowConfig: FlowConfig) {
-    const events: Record<string, unknown> = {};
+  private applyFormValidation(step: Step, state: Record<string, unknown>, region?: string): void {
+    const view = step.view;
+    const on = state.on as Record<string, unknown> | undefined;
+    if (view?.type !== 'form' || !(view.fields?.length || view.rules?.length) || on?.NEXT === undefined) {
+      return;
+    }
 
-    // Map semantic navigation events to XState events
-    const eventMapping: Record<string, string> = {
-      onNext: 'NEXT',
-      onBack: 'BACK',
-      onError: 'ERROR',
-      onCancel: 'CANCEL'
+    type ValidationArgs = { context: Record<string, unknown>; event: EventObject & { data?: unknown } };
+    // Result of the guard's validation, reused by the action storing the field errors
+    const results = new WeakMap<EventObject, { context: Record<string, unknown>; result: FormValidationResult }>();
+    const validate = ({ context, event }: ValidationArgs) => {
+      const validated = results.get(event);
+      if (validated?.context === context) {
+        return validated.result;
+      }
+      const result = this.formValidator.validate(view, event.data, context);
+      results.set(event, { context, result });
+      return result;
     };
+    const rejected = {
+      guard: (args: ValidationArgs) => !validate(args).valid,
+      actions: assign((args: ValidationArgs) => setByPath(args.context, FIELD_ERRORS_PATH, validate(args).errors))
+    };
+
+    on.NEXT = [
+      region ? this.scopeToRegion(rejected, region) : rejected,
+      ...(Array.isArray(on.NEXT) ? on.NEXT : [on.NEXT])
+    ];
+    const exit = state.exit ? (state.exit as unknown[]) : [];
+    state.exit = [
+      ...exit,
+      assign(({ context }: { context: Record<string, unknown> }) => setByPath(context, FIELD_ERRORS_PATH, undefined))
+    ];
+  }
+
+  /**
+   * Apply the error policy to a step state: steps that can fail remember their entry event
+   * and route hook failures to their error step; error steps handle RETRY
+   */
+  private applyErrorHandling(
+    step: Step,
+    state: Record<string, unknown>,
+    flowConfig: FlowConfig,
+    implementations: MachineImplementations,
+    resolveTarget: TargetResolver
+  ): void {
+    const { errorPolicy } = implementations;
+    const on = (state.on || {}) as Record<string, unknown>;
+
+    if (errorPolicy.canFail(step)) {
+      const entry = state.entry ? (state.entry as unknown[]) : [];
+      state.entry = [errorPolicy.createEntryTracker(step.id), ...entry];
+
+      if (step.hooks) {
+        on[HOOK_ERROR_EVENT] = {
+          target: resolveTarget(errorPolicy.targetFor(step)),
+          actions: errorPolicy.createRecordAction(step.id)
+        };
+      }
+    }
+
+    if (errorPolicy.errorStepIds(this.flattenSteps(flowConfig.steps)).includes(step.id)) {
+      if (!('RETRY' in on)) {
+        on.RETRY = { actions: errorPolicy.createRetryActions() };
+      }
+      on[RETRY_EVENT] = errorPolicy.createRetryTransitions(this.flattenSteps(flowConfig.steps), resolveTarget);
+    }
+
+    if (Object.keys(on).length > 0) {
+      state.on = on;
+    }
+  }
+
+  /**
+   * Create navigation configuration
+   */
+  private createNavigation(navigation: Record<string, unknown>, resolveTarget: TargetResolver, region?: string) {
+    const events: Record<string, unknown> = {};
 
     for (const [semanticEvent, config] of Object.entries(navigation)) {
-      const xstateEvent = eventMapping[semanticEvent] || semanticEvent;
+      // Map semantic navigation events to XState events
+      const xstateEvent = NAVIGATION_EVENTS[semanticEvent] || semanticEvent;
       
       try {
-      if (typeof config === 'string') {
-        events[xstateEvent] = config;
-      } else if (Array.isArray(config)) {
-          events[xstateEvent] = config.map((c: Record<string, unknown>) => ({
-          target: c.target,
-            guard: c.guard ? flowConfig.guards?.[c.guard as string] : undefined,
-          actions: c.actions
-        }));
-      } else if (config && typeof config === 'object') {
-          const configObj = config as Record<string, unknown>;
-        events[xstateEvent] = {
-          target: configObj.target,
-            guard: configObj.guard ? flowConfig.guards?.[configObj.guard as string] : undefined,
-          actions: configObj.actions
-        };
+        const transition = this.createTransition(config, resolveTarget);
+        if (transition !== undefined) {
+          events[xstateEvent] = region ? this.scopeToRegion(transition, region) : transition;
         }
       } catch (error) {
         throw new ConfigurationError(
@@ -511,17 +1258,178 @@ export class FlowOrchestrator {
   }
 
   /**
-   * Create hooks configuration for XState
+   * Restrict a transition to events without a `region` or addressed to the given region
+   */
+  private scopeToRegion(transition: unknown, region: string): unknown {
+    const inRegion = ({ event }: { event: EventObject & { region?: unknown } }) =>
+      event.region === undefined || event.region === region;
+
+    const scope = (branch: unknown) => {
+      const config = typeof branch === 'string' ? { target: branch } : (branch as Record<string, unknown>);
+      return {
+        ...config,
+        guard: config.guard ? and([config.guard as string, inRegion]) : inRegion
+      };
+    };
+
+    return Array.isArray(transition) ? transition.map(scope) : scope(transition);
+  }
+
+  /**
+   * Create XState transition from a navigation target or navigation config(s)
    */
-  private createHooks(hooks: unknown[]): Record<string, unknown> {
-    const hookConfig: Record<string, unknown> = {};
+  private createTransition(config: unknown, resolveTarget: TargetResolver): unknown {
+    if (typeof config === 'string') {
+      return resolveTarget(config);
+    }
+
+    if (Array.isArray(config)) {
+      return config.map((c: Record<string, unknown>) => ({
+        target: typeof c.target === 'string' ? resolveTarget(c.target) : c.target,
+        ...(c.guard ? { guard: c.guard } : {}),
+        actions: c.actions
+      }));
+    }
+
+    if (config && typeof config === 'object') {
+      const configObj = config as Record<string, unknown>;
+      return {
+        target: typeof configObj.target === 'string' ? resolveTarget(configObj.target) : configObj.target,
+        ...(configObj.guard ? { guard: configObj.guard } : {}),
+        actions: configObj.actions
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Create XState invoke definition, resolving `src` to actor logic
+   */
+  private createInvoke(
+    step: Step,
+    invoke: InvokeConfig,
+    flowConfig: FlowConfig,
+    implementations: MachineImplementations,
+    resolveTarget: TargetResolver
+  ) {
+    if (!invoke.src || typeof invoke.src !== 'string') {
+      throw new ConfigurationError('Invoke must have a string "src" field', { invoke });
+    }
+
+    if (!implementations.actors[invoke.src]) {
+      implementations.actors[invoke.src] = this.actorResolver.resolve(invoke.src, flowConfig);
+    }
+
+    const id = invoke.id || invoke.src;
+    const onDone = this.createTransition(invoke.onDone, resolveTarget);
+
+    return {
+      id,
+      src: invoke.src,
+      input: ({ context, event }: { context: Record<string, unknown>; event: Record<string, unknown> }) =>
+        this.templateParser.parseValue(invoke.input ?? {}, { context, event }),
+      // The output is mapped into context before the `onDone` actions run
+      onDone: invoke.updateContext || invoke.mapResult
+        ? this.withActions(onDone, this.patcher.createAction(`invoke:${id}`, (_context, event) =>
+            resultMapper.createPatches((event as EventObject & { output?: unknown }).output, invoke)))
+        : onDone,
+      // Failures are stored in context; without `onError` they go to the error step
+      onError: this.withActions(
+        this.createTransition(invoke.onError ?? implementations.errorPolicy.targetFor(step), resolveTarget),
+        implementations.errorPolicy.createRecordAction(step.id)
+      )
+    };
+  }
+
+  /**
+   * Prepend an action to every branch of a transition
+   */
+  private withActions(transition: unknown, action: unknown): unknown {
+    const prepend = (branch: unknown) => {
+      const config = typeof branch === 'string' ? { target: branch } : (branch as Record<string, unknown>);
+      const actions = config.actions === undefined ? [] : Array.isArray(config.actions) ? config.actions : [config.actions];
+      return { ...config, actions: [action, ...actions] };
+    };
+
+    return Array.isArray(transition) ? transition.map(prepend) : prepend(transition);
+  }
+
+  /**
+   * Create XState invoke definition running a registered flow as a child machine.
+   * Its output is mapped into the parent context before following `navigation.onNext`.
+   */
+  private createSubFlowInvoke(
+    step: Step,
+    subFlow: SubFlowConfig,
+    resolveTarget: TargetResolver,
+    implementations: MachineImplementations
+  ) {
+    const src = `subflow.${subFlow.flowId}`;
+    if (!implementations.actors[src]) {
+      const childConfig = this.flows.get(subFlow.flowId);
+      if (!childConfig) {
+        throw new ConfigurationError(`Sub-flow "${subFlow.flowId}" is not registered`, { subFlow });
+      }
+      implementations.actors[src] = this.orchestrate(childConfig);
+    }
+
+    const mapOutput = this.patcher.createAction(`subflow:${step.id}`, (context, event): ContextPatch[] => {
+      const { output } = event as EventObject & { output?: unknown };
+      if (subFlow.output === undefined || typeof subFlow.output === 'string') {
+        return [{ op: 'set', path: subFlow.output ?? step.id, value: output }];
+      }
+      return Object.entries(subFlow.output).map(([path, value]) => ({
+        op: 'set',
+        path,
+        value: this.templateParser.parseValue(value, { output, context, event })
+      }));
+    });
+
+    const onNext = this.normalizeBranches(step.navigation?.onNext);
+    const onError = step.navigation?.onError;
+
+    return {
+      id: `subflow.${step.id}`,
+      src,
+      input: ({ context, event }: { context: Record<string, unknown>; event: Record<string, unknown> }) =>
+        this.templateParser.parseValue(subFlow.input ?? {}, { context, event }),
+      onDone: onNext.length > 0
+        ? onNext.map(branch => ({
+            target: resolveTarget(branch.target),
+            ...(branch.guard ? { guard: branch.guard } : {}),
+            actions: [mapOutput, ...branch.actions]
+          }))
+        : { actions: mapOutput },
+      onError: {
+        target: resolveTarget(typeof onError === 'string' ? onError : implementations.errorPolicy.targetFor(step)),
+        actions: implementations.errorPolicy.createRecordAction(step.id)
+      }
+    };
+  }
+
+  /**
+   * Create hook actions for XState
+   *
+   * Synchronous hooks become actions. Asynchronous `before` hooks are invoked by the step
+   * (and cancelled if it is left early); asynchronous `after` hooks are spawned on exit so
+   * they outlive the step, with their results handled at the machine root.
+   */
+  private createHooks(
+    step: Step,
+    phase: HookPhase,
+    hooks: unknown[],
+    implementations: MachineImplementations
+  ): { actions: unknown[]; invoke: unknown[] } {
+    const actions: unknown[] = [];
+    const invoke: unknown[] = [];
 
     hooks.forEach((hook, index) => {
       if (!hook || typeof hook !== 'object') {
         throw new ConfigurationError(`Hook at index ${index} must be an object`);
       }
 
-      const hookObj = hook as Record<string, unknown>;
+      const hookObj = hook as Hook;
       
       if (!hookObj.id || typeof hookObj.id !== 'string') {
         throw new ConfigurationError(`Hook at index ${index} must have a string "id" field`);
@@ -531,29 +1439,35 @@ export class FlowOrchestrator {
         throw new ConfigurationError(`Hook at index ${index} must have a string "type" field`);
       }
 
-      // Create XState after configuration based on hook type
-      switch (hookObj.type) {
-        case 'delay':
-          // For delay hooks, we'll add a simple delay action
-          hookConfig[hookObj.id] = {
-            delay: hookObj.duration || 1000
-          };
-          break;
-        case 'http':
-          hookConfig[hookObj.id] = {
-            invoke: {
-              src: 'httpRequest',
-              onDone: 'complete',
-              onError: 'error'
-            }
-          };
-          break;
-        default:
-          // Generic hook - just pass through
-          hookConfig[hookObj.id] = hookObj;
+      if (!this.hookProcessor.isAsync(hookObj)) {
+        actions.push(this.hookProcessor.createHookAction(hookObj, phase));
+        return;
+      }
+
+      const src = `hook.${step.id}.${hookObj.id}`;
+      const input = ({ context, event }: { context: Record<string, unknown>; event: Record<string, unknown> }) =>
+        ({ context, event });
+      implementations.actors[src] = this.hookProcessor.createHookActor(hookObj, phase);
+
+      if (phase === 'before') {
+        invoke.push({
+          id: src,
+          src,
+          input,
+          onDone: { actions: this.hookProcessor.createResultAction(hookObj) },
+          onError: { actions: this.hookProcessor.createFailureAction(hookObj, phase) }
+        });
+      } else {
+        actions.push(spawnChild(src, { id: src, input }));
+        implementations.rootEvents[`xstate.done.actor.${src}`] = {
+          actions: this.hookProcessor.createResultAction(hookObj)
+        };
+        implementations.rootEvents[`xstate.error.actor.${src}`] = {
+          actions: this.hookProcessor.createFailureAction(hookObj, phase)
+        };
       }
     });
 
-    return hookConfig;
+    return { actions, invoke };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,146 @@
+/**
+ * Guard Builder
+ * Builds XState guard implementations for the named guards in `FlowConfig.guards`
+ *
+ * `jsonLogic` guards evaluate their expression and `simple` guards their condition
+ * against `{ ...context, context, event }`; any other type is delegated to a handler
+ * registered for it, or to the guard plugin of that id.
+ */
+
+import type { FlowConfig, GuardConfig } from '../types';
+import { ConditionEvaluator } from '../utils/condition-evaluator';
+import { JsonLogicEvaluator } from '../utils/json-logic-evaluator';
+import { ConfigurationError } from './errors';
+import type { PluginResolver } from './plugin-resolver';
+
+/**
+ * Handler for custom guard types, mirroring `GuardPlugin.evaluate` but synchronous
+ * since XState guards cannot wait
+ */
+export type GuardHandler = (
+  config: Record<string, unknown>,
+  context: Record<string, unknown>,
+  event: Record<string, unknown>
+) => boolean;
+
+/**
+ * XState guard implementation built for a flow machine
+ */
+export type FlowGuard = (args: {
+  context: Record<string, unknown>;
+  event: Record<string, unknown>;
+}) => boolean;
+
+const BUILT_IN_GUARD_TYPES = ['jsonLogic', 'simple'];
+
+export class GuardBuilder {
+  private jsonLogicEvaluator = new JsonLogicEvaluator();
+  private conditionEvaluator = new ConditionEvaluator();
+  private handlers = new Map<string, GuardHandler>();
+  private plugins?: PluginResolver;
+
+  constructor(plugins?: PluginResolver) {
+    this.plugins = plugins;
+  }
+
+  /**
+   * Register a handler for a custom guard type
+   */
+  register(type: string, handler: GuardHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Check whether a guard type can be built
+   */
+  has(type: string): boolean {
+    return BUILT_IN_GUARD_TYPES.includes(type) || this.handlers.has(type) || Boolean(this.plugins?.get(type, 'guard'));
+  }
+
+  /**
+   * Check a guard configuration, returning an error message if it cannot be built
+   */
+  check(id: string, guard: GuardConfig): string | undefined {
+    try {
+      this.createGuard(id, guard);
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Build the XState guard implementations map for a flow
+   */
+  build(flowConfig: FlowConfig): Record<string, FlowGuard> {
+    const guards: Record<string, FlowGuard> = {};
+
+    for (const [id, guard] of Object.entries(flowConfig.guards || {})) {
+      guards[id] = this.createGuard(id, guard);
+    }
+
+    return guards;
+  }
+
+  /**
+   * Create XState guard for a single guard configuration
+   */
+  private createGuard(id: string, guard: GuardConfig): FlowGuard {
+    switch (guard.type) {
+      case 'jsonLogic':
+        if (guard.expression === undefined) {
+          throw new ConfigurationError(`JSON Logic guard "${id}" must have an "expression" field`, { id, guard });
+        }
+        for (const error of this.jsonLogicEvaluator.check(guard.expression)) {
+          throw new ConfigurationError(`JSON Logic guard "${id}" is invalid: ${error}`, { id, guard });
+        }
+        return ({ context, event }) =>
+          this.jsonLogicEvaluator.evaluate(guard.expression, { ...context, context, event });
+
+      case 'simple': {
+        if (typeof guard.condition !== 'string') {
+          throw new ConfigurationError(`Simple guard "${id}" must have a string "condition" field`, { id, guard });
+        }
+        let condition: (data: Record<string, unknown>) => unknown;
+        try {
+          condition = this.conditionEvaluator.compile(guard.condition);
+        } catch (error) {
+          throw new ConfigurationError(
+            `Guard "${id}" has an invalid condition: ${error instanceof Error ? error.message : String(error)}`,
+            { id, guard }
+          );
+        }
+        return ({ context, event }) => Boolean(condition({ ...context, context, event }));
+      }
+
+      default:
+        return this.createHandlerGuard(id, guard);
+    }
+  }
+
+  /**
+   * Create XState guard that delegates to a registered handler or a guard plugin
+   */
+  private createHandlerGuard(id: string, guard: GuardConfig): FlowGuard {
+    const handler = this.handlers.get(guard.type) || this.plugins?.guard(guard.type);
+    if (!handler) {
+      throw new ConfigurationError(
+        `Guard "${id}" has unknown type "${guard.type}" and no handler or plugin is registered for it`,
+        { id, guard }
+      );
+    }
+
+    const config = guard.config && typeof guard.config === 'object'
+      ? (guard.config as Record<string, unknown>)
+      : (guard as unknown as Record<string, unknown>);
+
+    return ({ context, event }) => {
+      try {
+        return Boolean(handler(config, context, event));
+      } catch (error) {
+        console.warn(`Guard ${id} failed:`, error);
+        return false;
+      }
+    };
+  }
+}
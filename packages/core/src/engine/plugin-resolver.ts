@@ -0,0 +1,177 @@
+/**
+ * Plugin Resolver
+ * Resolves flow references to the plugins of a plugin manager
+ *
+ * Actions and guards whose type is the id of a loaded action or guard plugin run
+ * `ActionPlugin.execute` or `GuardPlugin.evaluate`; actors whose type, or invoke `src`,
+ * is the id of a loaded actor plugin run the actor logic `ActorPlugin.createActor` creates.
+ * Tool plugins are run by the `ToolRunner`.
+ * Plugins implementing lifecycle callbacks (`onFlowStart`, `onStepEnter`...) observe every
+ * running flow, when the manager lists its plugins.
+ * The plugin manager is typed structurally, so that `@xflows/plugins` managers can be used
+ * without core depending on them.
+ */
+
+import { createActor, fromPromise, type AnyActorLogic } from 'xstate';
+import type { FlowConfig, FlowLifecycleEvent, FlowLifecycleHook, PluginLifecycle } from '../types';
+import { satisfiesRange } from '../utils/version';
+import type { ActionHandler } from './action-builder';
+import type { GuardHandler } from './guard-builder';
+import { FlowOrchestrationError } from './errors';
+
+/**
+ * Plugin as the orchestrator uses it, mirroring `@xflows/plugins` plugins
+ */
+export interface FlowPlugin extends PluginLifecycle {
+  id: string;
+  type: string;
+  version?: string;
+  createActor?(config: Record<string, unknown>): unknown;
+  // Action plugins are executed with the context and event, tool plugins with their input
+  execute?(config: Record<string, unknown>, ...args: unknown[]): unknown;
+  evaluate?(config: Record<string, unknown>, context: Record<string, unknown>, event: Record<string, unknown>): unknown;
+  // JSON Schemas of the input and output of tool plugins
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+/**
+ * Plugin manager the orchestrator looks plugins up in, e.g. a `DefaultPluginManager`
+ */
+export interface FlowPluginManager {
+  getPlugin(pluginId: string): FlowPlugin | undefined;
+  // Every loaded plugin, for lifecycle callbacks
+  getPlugins?(): FlowPlugin[];
+}
+
+type FlowPluginType = 'actor' | 'action' | 'guard' | 'tool';
+
+export class PluginResolver {
+  private manager?: FlowPluginManager;
+
+  /**
+   * Look plugins up in a plugin manager
+   */
+  use(manager: FlowPluginManager): void {
+    this.manager = manager;
+  }
+
+  /**
+   * Check that the plugins a flow declares in `FlowConfig.plugins` are loaded, with their
+   * declared type and version; returns an error message per mismatch (every declared plugin
+   * is missing when no plugin manager is used)
+   */
+  check(flowConfig: FlowConfig): string[] {
+    const errors: string[] = [];
+    for (const [id, declaration] of Object.entries(flowConfig.plugins || {})) {
+      const plugin = this.manager?.getPlugin(id);
+      if (!plugin) {
+        errors.push(`Plugin "${id}" is not loaded`);
+      } else if (plugin.type !== declaration.type) {
+        errors.push(`Plugin "${id}" is of type "${plugin.type}", expected "${declaration.type}"`);
+      } else if (declaration.version && plugin.version && !satisfiesRange(plugin.version, declaration.version)) {
+        errors.push(`Plugin "${id}" has version ${plugin.version}, expected ${declaration.version}`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Whether plugins can observe flows: the plugin manager lists its plugins
+   */
+  get observesLifecycle(): boolean {
+    return typeof this.manager?.getPlugins === 'function';
+  }
+
+  /**
+   * Call a lifecycle callback of every loaded plugin implementing it; failures are
+   * reported without affecting the flow
+   */
+  dispatch(hook: FlowLifecycleHook, event: FlowLifecycleEvent): void {
+    for (const plugin of this.manager?.getPlugins?.() || []) {
+      const callback = plugin[hook];
+      if (typeof callback !== 'function') {
+        continue;
+      }
+
+      try {
+        const result = callback.call(plugin, event);
+        if (result instanceof Promise) {
+          result.catch(error => console.warn(`Plugin ${plugin.id} ${hook} failed:`, error));
+        }
+      } catch (error) {
+        console.warn(`Plugin ${plugin.id} ${hook} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Loaded plugin of a type
+   */
+  get(pluginId: string, type: FlowPluginType): FlowPlugin | undefined {
+    const plugin = this.manager?.getPlugin(pluginId);
+    return plugin?.type === type ? plugin : undefined;
+  }
+
+  /**
+   * Action handler running an action plugin
+   */
+  action(pluginId: string): ActionHandler | undefined {
+    const plugin = this.get(pluginId, 'action');
+    const execute = plugin?.execute;
+    return execute && ((config, context, event) => execute.call(plugin, config, context, event));
+  }
+
+  /**
+   * Guard handler running a guard plugin; XState guards cannot wait, so the plugin
+   * must evaluate synchronously
+   */
+  guard(pluginId: string): GuardHandler | undefined {
+    const plugin = this.get(pluginId, 'guard');
+    const evaluate = plugin?.evaluate;
+    return (
+      evaluate &&
+      ((config, context, event) => {
+        const result = evaluate.call(plugin, config, context, event);
+        if (result instanceof Promise) {
+          throw new FlowOrchestrationError(`Guard plugin "${pluginId}" must evaluate synchronously`, 'ASYNC_GUARD', {
+            pluginId
+          });
+        }
+        return Boolean(result);
+      })
+    );
+  }
+
+  /**
+   * Actor logic running the logic an actor plugin creates, with the invoke input; it
+   * resolves with the output of that logic
+   */
+  actor(pluginId: string, config: Record<string, unknown>): AnyActorLogic | undefined {
+    const plugin = this.get(pluginId, 'actor');
+    const create = plugin?.createActor;
+    if (!create) {
+      return undefined;
+    }
+
+    return fromPromise(async ({ input, signal }: { input: unknown; signal: AbortSignal }) => {
+      const logic = await create.call(plugin, config);
+      if (!isActorLogic(logic)) {
+        throw new FlowOrchestrationError(`Actor plugin "${pluginId}" did not create actor logic`, 'INVALID_ACTOR', {
+          pluginId
+        });
+      }
+
+      return new Promise((resolve, reject) => {
+        const actor = createActor(logic, { input });
+        signal.addEventListener('abort', () => actor.stop());
+        actor.subscribe({ complete: () => resolve(actor.getSnapshot().output), error: reject });
+        actor.start();
+      });
+    });
+  }
+}
+
+function isActorLogic(value: unknown): value is AnyActorLogic {
+  return Boolean(value) && typeof (value as AnyActorLogic).transition === 'function';
+}
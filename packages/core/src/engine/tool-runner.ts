@@ -0,0 +1,98 @@
+/**
+ * Tool Runner
+ * Calls tool plugins for `tool` hooks and actions, and for steps invoking `tool:<id>`
+ *
+ * Parameters are templates resolved against `{ context, event }` (invokes pass their
+ * resolved input). They are checked against the optional `inputSchema` of the tool, and
+ * its result against the optional `outputSchema`, before the result is mapped into context.
+ */
+
+import { fromPromise, type AnyActorLogic } from 'xstate';
+import type { ContextPatch, ToolCall } from '../types';
+import type { TemplateParser } from '../parser/template-parser';
+import { resultMapper } from '../utils/result-mapper';
+import type { SchemaValidator } from '../validation/schema-validator';
+import { FlowOrchestrationError, ValidationError } from './errors';
+import type { PluginResolver } from './plugin-resolver';
+
+/**
+ * Prefix of invoke sources calling a tool, e.g. `tool:addressLookup`
+ */
+export const TOOL_SRC_PREFIX = 'tool:';
+
+/**
+ * Tool id of an invoke source, if it calls a tool
+ */
+export function toolIdOf(src: string): string | undefined {
+  return src.startsWith(TOOL_SRC_PREFIX) ? src.slice(TOOL_SRC_PREFIX.length) : undefined;
+}
+
+export class ToolRunner {
+  private templateParser: TemplateParser;
+  private plugins: PluginResolver;
+  private schemaValidator: SchemaValidator;
+
+  constructor(templateParser: TemplateParser, plugins: PluginResolver, schemaValidator: SchemaValidator) {
+    this.templateParser = templateParser;
+    this.plugins = plugins;
+    this.schemaValidator = schemaValidator;
+  }
+
+  /**
+   * Check whether a tool plugin is loaded
+   */
+  has(toolId: string): boolean {
+    return Boolean(this.plugins.get(toolId, 'tool'));
+  }
+
+  /**
+   * Call a tool with its parameters resolved against the context and event; resolves with the result
+   */
+  run(call: ToolCall, data: { context: Record<string, unknown>; event: Record<string, unknown> }): Promise<unknown> {
+    return this.execute(call.tool, call.toolName, this.templateParser.parseValue(call.parameters ?? {}, data));
+  }
+
+  /**
+   * Context patches mapping a tool result into context
+   */
+  createPatches(call: Pick<ToolCall, 'updateContext' | 'mapResult'>, result: unknown): ContextPatch[] {
+    return resultMapper.createPatches(result, call);
+  }
+
+  /**
+   * Actor logic calling a tool with the invoke input as parameters; it resolves with the result
+   */
+  createActor(toolId: string): AnyActorLogic {
+    return fromPromise(async ({ input }: { input: unknown }) => this.execute(toolId, undefined, input));
+  }
+
+  private async execute(toolId: string, toolName: string | undefined, parameters: unknown): Promise<unknown> {
+    const plugin = this.plugins.get(toolId, 'tool');
+    const execute = plugin?.execute;
+    if (!execute) {
+      throw new FlowOrchestrationError(`Tool "${toolId}" is not loaded`, 'TOOL_NOT_FOUND', { toolId });
+    }
+
+    this.check(toolId, 'input', plugin.inputSchema, parameters);
+    const result = await execute.call(plugin, { toolName: toolName || toolId, parameters }, parameters);
+    this.check(toolId, 'output', plugin.outputSchema, result);
+    return result;
+  }
+
+  /**
+   * Check a tool input or output against the schema the tool declares for it
+   */
+  private check(toolId: string, kind: 'input' | 'output', schema: Record<string, unknown> | undefined, data: unknown) {
+    if (!schema) {
+      return;
+    }
+
+    const result = this.schemaValidator.validate(data, schema);
+    if (!result.valid) {
+      throw new ValidationError(
+        `Tool "${toolId}" ${kind} does not match its ${kind} schema: ${result.errors.join(', ')}`,
+        { toolId, errors: result.errors, [kind]: data }
+      );
+    }
+  }
+}
@@ -7,16 +7,28 @@ export * from "./types";
 
 // Main orchestrator
 export * from "./engine/flow-orchestrator";
+export * from "./engine/flow-history";
+export type { FlowPlugin, FlowPluginManager } from "./engine/plugin-resolver";
+
+// Persistence
+export * from "./persistence/flow-store";
+export * from "./persistence/flow-persistence";
+export * from "./persistence/flow-migrator";
 
 // Parser
 export * from "./parser/template-parser";
+export * from "./parser/flow-compiler";
 
 // Validation
 export * from "./validation/schema-validator";
 export * from "./validation/runtime-type-validator";
+export * from "./validation/form-validator";
 
 // Utilities
 export * from "./utils/cache";
 export * from "./utils/response-validator";
 export * from "./utils/result-mapper";
 export * from "./utils/retry-manager";
+export * from "./utils/object-path";
+export * from "./utils/context-patch";
+export * from "./utils/version";
@@ -0,0 +1,255 @@
+/**
+ * Flow Compiler
+ * Compiles every template and JSON Logic `var` of a flow and checks the context paths they reference
+ *
+ * Templates are collected from the steps (views, hooks, invokes, sub-flows, outputs),
+ * actions, actors and guards of a flow and compiled into the template parser's cache.
+ * References rooted at `context`, and the bare `var` paths of guards and condition hooks
+ * (evaluated against the context), are checked against `FlowConfig.contextSchema` when the
+ * flow declares one. Unknown filters are always reported.
+ */
+
+import type { FlowConfig, Step } from '../types';
+import { splitPath, type TemplateParser } from './template-parser';
+
+export interface TemplateReference {
+  // Where the reference appears, e.g. `steps.profile.view.title`
+  location: string;
+  kind: 'template' | 'var';
+  // Path as written
+  path: string;
+  // Context path the reference reads, when it reads the context
+  contextPath?: string;
+}
+
+export interface TemplateReferenceError {
+  location: string;
+  message: string;
+}
+
+export interface FlowCompilation {
+  // Number of templates compiled
+  templates: number;
+  references: TemplateReference[];
+  errors: TemplateReferenceError[];
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema | boolean>;
+  patternProperties?: Record<string, JsonSchema | boolean>;
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema | boolean;
+  allOf?: Array<JsonSchema | boolean>;
+  anyOf?: Array<JsonSchema | boolean>;
+  oneOf?: Array<JsonSchema | boolean>;
+  $ref?: string;
+};
+
+// Flow keys holding templates; the rest are data (context), schemas or migrations of other versions
+const TEMPLATE_KEYS = ['actions', 'guards', 'actors', 'steps'] as const;
+
+// Step keys holding nested steps, walked as steps of their own
+const NESTED_STEP_KEYS = ['steps', 'regions'];
+
+export class FlowCompiler {
+  private templateParser: TemplateParser;
+
+  constructor(templateParser: TemplateParser) {
+    this.templateParser = templateParser;
+  }
+
+  /**
+   * Compile the templates of a flow and check their references; `knownPaths` are context paths
+   * the engine writes itself (history, errors), known whatever the schema declares
+   */
+  compile(config: FlowConfig, knownPaths: string[] = []): FlowCompilation {
+    const compilation: FlowCompilation = { templates: 0, references: [], errors: [] };
+
+    for (const key of TEMPLATE_KEYS) {
+      if (key === 'steps') {
+        this.walkSteps(config.steps || [], 'steps', compilation);
+      } else {
+        for (const [name, value] of Object.entries(config[key] || {})) {
+          this.walk(value, `${key}.${name}`, key === 'guards', compilation);
+        }
+      }
+    }
+
+    const schema = config.contextSchema as JsonSchema | undefined;
+    if (schema) {
+      for (const reference of compilation.references) {
+        const { contextPath } = reference;
+        if (
+          contextPath === undefined ||
+          knownPaths.some(path => contextPath === path || contextPath.startsWith(`${path}.`) || contextPath.startsWith(`${path}[`))
+        ) {
+          continue;
+        }
+        if (!this.hasPath(schema, splitPath(contextPath), schema)) {
+          compilation.errors.push({
+            location: reference.location,
+            message: `Unknown context path "${contextPath}"`
+          });
+        }
+      }
+    }
+
+    return compilation;
+  }
+
+  private walkSteps(steps: Step[], location: string, compilation: FlowCompilation): void {
+    for (const step of steps) {
+      const stepLocation = `${location}.${step.id}`;
+      for (const [key, value] of Object.entries(step)) {
+        if (NESTED_STEP_KEYS.includes(key)) {
+          this.walkSteps(value as Step[], stepLocation, compilation);
+        } else if (key !== 'id') {
+          this.walk(value, `${stepLocation}.${key}`, false, compilation);
+        }
+      }
+    }
+  }
+
+  /**
+   * Collect the templates and `var`s of a value; `bareContext` when bare `var` paths read the context
+   */
+  private walk(value: unknown, location: string, bareContext: boolean, compilation: FlowCompilation): void {
+    if (typeof value === 'string') {
+      if (value.includes('{{')) {
+        this.addTemplate(value, location, compilation);
+      }
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.walk(item, `${location}[${index}]`, bareContext, compilation));
+      return;
+    }
+
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    const object = value as Record<string, unknown>;
+    if ('var' in object) {
+      this.addVar(object.var, location, bareContext, compilation);
+    }
+
+    // Condition hooks evaluate their expression against the context
+    const isConditionHook = object.type === 'condition';
+    for (const [key, item] of Object.entries(object)) {
+      if (key !== 'var') {
+        this.walk(item, `${location}.${key}`, bareContext || (isConditionHook && key === 'expression'), compilation);
+      }
+    }
+  }
+
+  private addTemplate(template: string, location: string, compilation: FlowCompilation): void {
+    compilation.templates++;
+
+    for (const expression of this.templateParser.compile(template).expressions) {
+      compilation.references.push({
+        location,
+        kind: 'template',
+        path: expression.path,
+        ...this.toContextPath(expression.path, false)
+      });
+
+      for (const filter of expression.filters) {
+        if (!this.templateParser.filters.includes(filter.name)) {
+          compilation.errors.push({
+            location,
+            message: `Unknown filter "${filter.name}" in "{{${expression.source}}}"`
+          });
+        }
+      }
+    }
+  }
+
+  private addVar(value: unknown, location: string, bareContext: boolean, compilation: FlowCompilation): void {
+    // `{ "var": "path" }` or `{ "var": ["path", default] }`
+    const path = Array.isArray(value) ? value[0] : value;
+    if (typeof path !== 'string' || path === '') {
+      return;
+    }
+
+    compilation.references.push({ location, kind: 'var', path, ...this.toContextPath(path, bareContext) });
+  }
+
+  private toContextPath(path: string, bareContext: boolean): { contextPath?: string } {
+    if (path === 'context' || path.startsWith('context.') || path.startsWith('context[')) {
+      return { contextPath: path.slice('context'.length).replace(/^\./, '') };
+    }
+    if (bareContext && !/^event([.[]|$)/.test(path)) {
+      return { contextPath: path };
+    }
+    return {};
+  }
+
+  /**
+   * Whether a schema allows a path; schemas without `properties` accept any path below them
+   */
+  private hasPath(schema: JsonSchema | boolean | undefined, segments: string[], root: JsonSchema): boolean {
+    if (schema === false) {
+      return false;
+    }
+    if (schema === undefined || schema === true || segments.length === 0) {
+      return true;
+    }
+    if (schema.$ref) {
+      return this.hasPath(this.resolveRef(schema.$ref, root), segments, root);
+    }
+
+    const branches = [...(schema.allOf || []), ...(schema.anyOf || []), ...(schema.oneOf || [])];
+    if (branches.length > 0) {
+      const { allOf, anyOf, oneOf, ...own } = schema;
+      const ownDefinesPath = own.properties !== undefined || own.items !== undefined;
+      return (ownDefinesPath && this.hasPath(own, segments, root)) || branches.some(branch => this.hasPath(branch, segments, root));
+    }
+
+    const [segment, ...rest] = segments;
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+    if (segment === 'length' && rest.length === 0 && (types.includes('array') || types.includes('string'))) {
+      return true;
+    }
+    if (types.includes('array') || schema.items !== undefined) {
+      return /^-?\d+$/.test(segment) && this.hasPath(schema.items, rest, root);
+    }
+    if (types.length > 0 && !types.includes('object')) {
+      return false;
+    }
+
+    const property = schema.properties?.[segment];
+    if (property !== undefined) {
+      return this.hasPath(property, rest, root);
+    }
+    for (const [pattern, patternSchema] of Object.entries(schema.patternProperties || {})) {
+      if (new RegExp(pattern).test(segment)) {
+        return this.hasPath(patternSchema, rest, root);
+      }
+    }
+    if (schema.additionalProperties !== undefined) {
+      return this.hasPath(schema.additionalProperties, rest, root);
+    }
+    return schema.properties === undefined && schema.patternProperties === undefined;
+  }
+
+  /**
+   * Resolve a local `$ref` such as `#/definitions/Address`
+   */
+  private resolveRef(ref: string, root: JsonSchema): JsonSchema | boolean | undefined {
+    if (!ref.startsWith('#')) {
+      return undefined;
+    }
+    return ref
+      .slice(1)
+      .split('/')
+      .filter(Boolean)
+      .reduce((current: unknown, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined), root) as
+      | JsonSchema
+      | boolean
+      | undefined;
+  }
+}
@@ -1,33 +1,330 @@
 /**
  * Template Parser
  * Handles template evaluation with {{variable}} syntax
+ *
+ * An expression is a path, with dots and array indexes (`items[0].name`, `items[-1]`,
+ * `map['some key']`), followed by filters: `{{user.name | default: 'Guest' | upper}}`.
+ * Filter arguments are quoted strings, numbers, `true`, `false`, `null` or paths; expressions
+ * with unknown filters, or with a currency code, locale or date style Intl rejects, are left unresolved.
+ * A template made of a single expression can be evaluated to its raw value, keeping its type.
+ *
+ * Templates are compiled once and cached, so rendering them again does not parse them.
  */
 
+export interface TemplateFilterCall {
+  name: string;
+  args: string[];
+}
+
+export interface TemplateExpression {
+  // Expression as written, without the braces
+  source: string;
+  path: string;
+  filters: TemplateFilterCall[];
+}
+
+type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+const EXPRESSION_PATTERN = /\{\{([^}]+)\}\}/g;
+const WHOLE_EXPRESSION_PATTERN = /^\{\{([^}]+)\}\}$/;
+const PATH_SEGMENT_PATTERN = /\[\s*(-?\d+|'[^']*'|"[^"]*")\s*\]|[^.[\]\s]+/g;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const INDEX_PATTERN = /^-?\d+$/;
+
+const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Format with Intl; an invalid currency code, locale or date style leaves the expression unresolved
+ */
+function formatOrUnresolved(format: () => string): string | undefined {
+  try {
+    return format();
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+const FILTERS: Record<string, TemplateFilter> = {
+  // Replaces undefined, null and empty strings
+  default: (value, fallback) => (value === undefined || value === null || value === '' ? fallback : value),
+  upper: value => (value === undefined || value === null ? value : String(value).toUpperCase()),
+  lower: value => (value === undefined || value === null ? value : String(value).toLowerCase()),
+  // `currency: 'EUR', 'de-DE'` (default: USD, en-US)
+  currency: (value, currency = 'USD', locale = DEFAULT_LOCALE) => {
+    const amount = typeof value === 'number' ? value : Number(value);
+    if (value === undefined || value === null || value === '' || Number.isNaN(amount)) return value;
+    return formatOrUnresolved(() =>
+      new Intl.NumberFormat(String(locale), { style: 'currency', currency: String(currency) }).format(amount)
+    );
+  },
+  // `date: 'iso'` or a date style, `date: 'long', 'fr-FR'` (default: medium, en-US)
+  date: (value, style = 'medium', locale = DEFAULT_LOCALE) => {
+    if (value === undefined || value === null || value === '') return value;
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) return value;
+    if (style === 'iso') return date.toISOString();
+    return formatOrUnresolved(() =>
+      new Intl.DateTimeFormat(String(locale), { dateStyle: style as Intl.DateTimeFormatOptions['dateStyle'] }).format(date)
+    );
+  },
+  json: (value, indent) => JSON.stringify(value, null, typeof indent === 'number' ? indent : undefined),
+  // Items of an array, characters of a string or keys of an object
+  length: value => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  }
+};
+
+/**
+ * A template parsed once: its literal text and expressions, ready to be rendered
+ */
+export interface CompiledTemplate {
+  source: string;
+  expressions: TemplateExpression[];
+  // Expression the template is made of, when it is a single expression
+  whole?: TemplateExpression;
+  // Literal text and expressions in order
+  parts: Array<string | CompiledExpression>;
+}
+
+interface CompiledExpression {
+  // Expression as written, with the braces
+  raw: string;
+  expression: TemplateExpression;
+  // Path segments and filter arguments, resolved from the data when evaluated
+  segments: string[];
+  args: TemplateArgument[][];
+  // False when a filter is unknown or the path is empty: the expression is left unresolved
+  resolvable: boolean;
+}
+
+type TemplateArgument = { value: unknown } | { path: string[] };
+
+// Compiled templates kept per parser; the oldest are dropped first
+const CACHE_LIMIT = 1000;
+
 export class TemplateParser {
+  private cache = new Map<string, CompiledTemplate>();
+
   /**
-   * Parse template string and replace variables
+   * Parse template string and replace variables; unresolved expressions are kept as written
    */
   parse(template: string, data: Record<string, unknown>): string {
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-      const value = this.getNestedValue(data, path.trim());
-      return value !== undefined ? String(value) : match;
-    });
+    return this.compile(template)
+      .parts.map(part => {
+        if (typeof part === 'string') {
+          return part;
+        }
+        const value = this.evaluateExpression(part, data);
+        if (value === undefined) {
+          return part.raw;
+        }
+        return value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+      })
+      .join('');
+  }
+
+  /**
+   * Evaluate a template: a single expression resolves to its raw value, keeping its type
+   * (the template itself when it is unresolved); other templates are parsed to a string
+   */
+  evaluate(template: string, data: Record<string, unknown>): unknown {
+    const compiled = this.compile(template);
+    if (compiled.whole) {
+      const value = this.evaluateExpression(compiled.parts[0] as CompiledExpression, data);
+      return value !== undefined ? value : template;
+    }
+    return this.parse(template, data);
   }
 
   /**
-   * Get nested value from object using dot notation
+   * Parse templates in every string of a nested value (objects and arrays are copied).
+   * A string made of a single expression resolves to the raw value, keeping its type.
    */
-  private getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-    return path.split('.').reduce((current: unknown, key: string) => {
-      return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
-    }, obj);
+  parseValue(value: unknown, data: Record<string, unknown>): unknown {
+    if (typeof value === 'string') {
+      return this.evaluate(value, data);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.parseValue(item, data));
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        result[key] = this.parseValue(item, data);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Compile a template, or return it from the cache when it was already compiled
+   */
+  compile(template: string): CompiledTemplate {
+    const cached = this.cache.get(template);
+    if (cached) {
+      return cached;
+    }
+
+    const parts: CompiledTemplate['parts'] = [];
+    let offset = 0;
+    for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+      if (match.index !== offset) {
+        parts.push(template.slice(offset, match.index));
+      }
+      parts.push(this.compileExpression(match[0], match[1]));
+      offset = (match.index as number) + match[0].length;
+    }
+    if (offset < template.length) {
+      parts.push(template.slice(offset));
+    }
+
+    const expressions = parts.filter((part): part is CompiledExpression => typeof part !== 'string');
+    const compiled: CompiledTemplate = {
+      source: template,
+      expressions: expressions.map(part => part.expression),
+      ...(WHOLE_EXPRESSION_PATTERN.test(template) ? { whole: expressions[0].expression } : {}),
+      parts
+    };
+
+    if (this.cache.size >= CACHE_LIMIT) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(template, compiled);
+    return compiled;
   }
 
   /**
-   * Extract variables from template
+   * Extract variables from template: the path of every expression
    */
   extractVariables(template: string): string[] {
-    const matches = template.match(/\{\{([^}]+)\}\}/g);
-    return matches ? matches.map(match => match.slice(2, -2).trim()) : [];
+    return this.extractExpressions(template).map(expression => expression.path);
+  }
+
+  /**
+   * Extract the expressions of a template with their filters
+   */
+  extractExpressions(template: string): TemplateExpression[] {
+    return this.compile(template).expressions;
   }
+
+  /**
+   * Names of the available filters
+   */
+  get filters(): string[] {
+    return Object.keys(FILTERS);
+  }
+
+  /**
+   * Split an expression into its path and filter calls
+   */
+  private compileExpression(raw: string, source: string): CompiledExpression {
+    const [path, ...calls] = splitOutsideQuotes(source, '|').map(part => part.trim());
+    const filters = calls.map(call => {
+      const separator = call.indexOf(':');
+      if (separator === -1) {
+        return { name: call, args: [] };
+      }
+      return {
+        name: call.slice(0, separator).trim(),
+        args: splitOutsideQuotes(call.slice(separator + 1), ',').map(arg => arg.trim())
+      };
+    });
+
+    return {
+      raw,
+      expression: { source: source.trim(), path, filters },
+      segments: splitPath(path),
+      args: filters.map(call => call.args.map(parseArgument)),
+      resolvable: path !== '' && filters.every(call => isFilter(call.name))
+    };
+  }
+
+  private evaluateExpression(compiled: CompiledExpression, data: Record<string, unknown>): unknown {
+    if (!compiled.resolvable) {
+      return undefined;
+    }
+
+    return compiled.expression.filters.reduce(
+      (value, call, index) =>
+        FILTERS[call.name](
+          value,
+          ...compiled.args[index].map(arg => ('path' in arg ? getNestedValue(data, arg.path) : arg.value))
+        ),
+      getNestedValue(data, compiled.segments)
+    );
+  }
+}
+
+/**
+ * Split a template path into its segments: `items[0]['a b'].c` -> `items`, `0`, `a b`, `c`
+ */
+export function splitPath(path: string): string[] {
+  return Array.from(path.matchAll(PATH_SEGMENT_PATTERN), ([segment, bracketed]) => {
+    if (bracketed === undefined) {
+      return segment;
+    }
+    return /^['"]/.test(bracketed) ? bracketed.slice(1, -1) : bracketed;
+  });
+}
+
+/**
+ * Get nested value from object by path segments; negative array indexes count from the end
+ */
+function getNestedValue(obj: Record<string, unknown>, segments: string[]): unknown {
+  return segments.reduce((current: unknown, segment) => {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    if (Array.isArray(current) && INDEX_PATTERN.test(segment)) {
+      const index = Number(segment);
+      return current[index < 0 ? current.length + index : index];
+    }
+    return (current as Record<string, unknown>)[segment];
+  }, obj);
+}
+
+function parseArgument(arg: string): TemplateArgument {
+  if (/^(['"]).*\1$/.test(arg)) return { value: arg.slice(1, -1) };
+  if (NUMBER_PATTERN.test(arg)) return { value: Number(arg) };
+  if (arg === 'true' || arg === 'false') return { value: arg === 'true' };
+  if (arg === 'null') return { value: null };
+  return { path: splitPath(arg) };
+}
+
+function isFilter(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FILTERS, name);
+}
+
+/**
+ * Split on a separator, ignoring separators inside quoted strings
+ */
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
 }
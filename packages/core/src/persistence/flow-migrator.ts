@@ -0,0 +1,219 @@
+/**
+ * Flow Migrator
+ * Upgrades persisted snapshots saved by earlier versions of a flow
+ *
+ * Starting at the stored version, the first `FlowConfig.migrations` entry whose
+ * `from` range matches is applied, then the next one from the version it produces,
+ * until the snapshot reaches the current flow version. Each migration can rename
+ * steps, move users off removed steps, rename and patch context fields, and run a
+ * registered migration function, in that order. Renamed and removed steps are also
+ * mapped in the step history and the stored error, so BACK, jumps and RETRY keep working.
+ */
+
+import { ErrorPolicy } from '../engine/error-policy';
+import { FlowHistory } from '../engine/flow-history';
+import type { TemplateParser } from '../parser/template-parser';
+import type { FlowConfig, FlowError, FlowMigration, HistoryEntry, MigrationReport, PersistedFlow } from '../types';
+import { applyPatch } from '../utils/context-patch';
+import { getByPath, setByPath } from '../utils/object-path';
+import { satisfiesRange } from '../utils/version';
+
+/**
+ * The parts of a persisted snapshot migrations work on
+ */
+export interface MigrationSnapshot {
+  value: unknown;
+  context: Record<string, unknown>;
+}
+
+export type MigrationFunction = (
+  snapshot: MigrationSnapshot,
+  versions: { from?: string; to?: string }
+) => MigrationSnapshot;
+
+export class FlowMigrator {
+  private templateParser: TemplateParser;
+  private functions = new Map<string, MigrationFunction>();
+
+  constructor(templateParser: TemplateParser) {
+    this.templateParser = templateParser;
+  }
+
+  /**
+   * Register a migration function that `FlowMigration.migrate` can reference
+   */
+  register(name: string, migration: MigrationFunction): void {
+    this.functions.set(name, migration);
+  }
+
+  /**
+   * Migrate a stored record to the flow's current version; nothing is saved
+   */
+  migrate(record: PersistedFlow, flowConfig: FlowConfig): MigrationReport {
+    const report: MigrationReport = {
+      fromVersion: record.version,
+      toVersion: flowConfig.version,
+      migrations: [],
+      changes: [],
+      success: false
+    };
+
+    let snapshot = record.snapshot as MigrationSnapshot & Record<string, unknown>;
+    let version = record.version;
+    const pending = [...(flowConfig.migrations || [])];
+
+    while (version !== flowConfig.version) {
+      const index = pending.findIndex(migration => version !== undefined && satisfiesRange(version, migration.from));
+      if (index === -1) {
+        report.error = `No migration from version ${version ?? '(none)'} of flow "${flowConfig.id}" to version ${flowConfig.version ?? '(none)'}`;
+        return report;
+      }
+
+      const [migration] = pending.splice(index, 1);
+      const to = migration.to ?? flowConfig.version;
+      try {
+        snapshot = { ...snapshot, ...this.apply(migration, snapshot, { from: version, to }, report.changes, flowConfig) };
+      } catch (error) {
+        report.error = `Migration from "${migration.from}" failed: ${error instanceof Error ? error.message : String(error)}`;
+        return report;
+      }
+
+      report.migrations.push(migration.from);
+      version = to;
+    }
+
+    report.success = true;
+    report.snapshot = snapshot;
+    return report;
+  }
+
+  /**
+   * Apply a single migration, recording what it changed
+   */
+  private apply(
+    migration: FlowMigration,
+    snapshot: MigrationSnapshot,
+    versions: { from?: string; to?: string },
+    changes: string[],
+    flowConfig: FlowConfig
+  ): MigrationSnapshot {
+    let value = snapshot.value;
+    let context = snapshot.context;
+    if (migration.renameSteps || migration.removedSteps) {
+      value = this.mapStateValue(value, migration.renameSteps || {}, migration.removedSteps || {}, changes);
+      context = this.mapContextSteps(context, migration.renameSteps || {}, migration.removedSteps || {}, changes, flowConfig);
+    }
+
+    for (const [from, to] of Object.entries(migration.renameContext || {})) {
+      const current = getByPath(context, from);
+      if (current !== undefined) {
+        context = applyPatch(setByPath(context, to, current), { op: 'remove', path: from });
+        changes.push(`Moved context "${from}" to "${to}"`);
+      }
+    }
+
+    for (const patch of migration.context || []) {
+      const resolved = { ...patch, value: this.templateParser.parseValue(patch.value, { context }) };
+      context = applyPatch(context, resolved);
+      changes.push(`Applied "${patch.op}" to context "${patch.path}"`);
+    }
+
+    if (migration.migrate) {
+      const migrate = this.functions.get(migration.migrate);
+      if (!migrate) {
+        throw new Error(`Migration function "${migration.migrate}" is not registered`);
+      }
+      ({ value, context } = migrate({ value, context }, versions));
+      changes.push(`Ran migration function "${migration.migrate}"`);
+    }
+
+    return { value, context };
+  }
+
+  /**
+   * Rename the steps kept in context: the visited steps of the history and the step of
+   * the stored error. History entries mapped to the step visited just before are merged
+   */
+  private mapContextSteps(
+    context: Record<string, unknown>,
+    renames: Record<string, string>,
+    removed: Record<string, string>,
+    changes: string[],
+    flowConfig: FlowConfig
+  ): Record<string, unknown> {
+    const mapStep = (stepId: string): string =>
+      stepId in renames ? renames[stepId] : stepId in removed ? removed[stepId] : stepId;
+    const errorPath = new ErrorPolicy(flowConfig).contextPath;
+    const mapError = (current: Record<string, unknown>): Record<string, unknown> => {
+      const error = getByPath(current, errorPath) as FlowError | undefined;
+      const stepId = error?.stepId && mapStep(error.stepId);
+      return stepId && stepId !== error.stepId ? setByPath(current, errorPath, { ...error, stepId }) : current;
+    };
+
+    let mapped = mapError(context);
+    if (mapped !== context) {
+      changes.push(`Moved the error in "${errorPath}" to step "${(getByPath(mapped, errorPath) as FlowError).stepId}"`);
+    }
+
+    const history = new FlowHistory(flowConfig);
+    const { entries, index } = history.read(mapped);
+    const steps: HistoryEntry[] = [];
+    let current = index;
+    entries.forEach((entry, position) => {
+      const step = { stepId: mapStep(entry.stepId), context: mapError(entry.context) };
+      if (steps.length > 0 && steps[steps.length - 1].stepId === step.stepId) {
+        if (position <= index) {
+          current--;
+        }
+        return;
+      }
+      steps.push(step);
+    });
+
+    if (entries.some((entry, position) => entry.stepId !== steps[position]?.stepId || entry.context !== steps[position].context)) {
+      mapped = setByPath(mapped, history.contextPath, { entries: steps, index: current });
+      changes.push(`Updated the visited steps in "${history.contextPath}"`);
+    }
+    return mapped;
+  }
+
+  /**
+   * Rename the state keys of a state value; a removed step is replaced by its fallback
+   */
+  private mapStateValue(
+    value: unknown,
+    renames: Record<string, string>,
+    removed: Record<string, string>,
+    changes: string[]
+  ): unknown {
+    const mapKey = (key: string): string => {
+      if (key in renames) {
+        changes.push(`Renamed step "${key}" to "${renames[key]}"`);
+        return renames[key];
+      }
+      if (key in removed) {
+        changes.push(`Moved from removed step "${key}" to "${removed[key]}"`);
+        return removed[key];
+      }
+      return key;
+    };
+
+    if (typeof value === 'string') {
+      return mapKey(value);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>);
+    const removedGroup = entries.find(([key]) => key in removed);
+    if (removedGroup) {
+      // The whole removed step group is left for its fallback step
+      return mapKey(removedGroup[0]);
+    }
+
+    return Object.fromEntries(
+      entries.map(([key, child]) => [mapKey(key), this.mapStateValue(child, renames, removed, changes)])
+    );
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Tests for flow snapshot persistence
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { FlowOrchestrator } from '../engine/flow-orchestrator';
+import { FlowPersistence } from './flow-persistence';
+import { AsyncFlowStore, LocalStorageFlowStore, MemoryFlowStore } from './flow-store';
+import type { FlowConfig } from '../types';
+
+describe('FlowPersistence', () => {
+  const createOnboardingFlow = (overrides: Partial<FlowConfig> = {}): FlowConfig => ({
+    id: 'onboarding',
+    name: 'Onboarding',
+    version: '1.0.0',
+    initialStep: 'profile',
+    context: { profile: {} },
+    actions: { saveProfile: { type: 'assign', target: 'profile', value: '{{event.data}}' } },
+    steps: [
+      { id: 'profile', name: 'Profile', view: { type: 'form' }, navigation: { onNext: { target: 'address', actions: 'saveProfile' } } },
+      { id: 'address', name: 'Address', view: { type: 'form' }, navigation: { onNext: 'done', onBack: 'profile' } },
+      { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} }
+    ],
+    ...overrides
+  });
+
+  it('should save the snapshot and resume where the user left off', async () => {
+    const flow = createOnboardingFlow();
+    const persistence = new FlowPersistence(new FlowOrchestrator(), new MemoryFlowStore());
+
+    const first = await persistence.restore(flow);
+    expect(first.restored).toBe(false);
+    first.actor.start();
+    first.actor.send({ type: 'NEXT', data: { name: 'Jane' } });
+    const record = await persistence.save(first.actor, flow);
+    first.actor.stop();
+
+    expect(record).toMatchObject({ flowId: 'onboarding', version: '1.0.0' });
+
+    const second = await persistence.restore(flow);
+    second.actor.start();
+    expect(second.restored).toBe(true);
+    expect(second.actor.getSnapshot().value).toBe('address');
+    expect(second.actor.getSnapshot().context.profile).toEqual({ name: 'Jane' });
+
+    second.actor.send({ type: 'BACK' });
+    expect(second.actor.getSnapshot().value).toBe('profile');
+    second.actor.stop();
+  });
+
+  it('should persist every change while subscribed', async () => {
+    const flow = createOnboardingFlow();
+    const store = new MemoryFlowStore();
+    const persistence = new FlowPersistence(new FlowOrchestrator(), store);
+
+    const { actor } = await persistence.restore(flow);
+    const subscription = persistence.persist(actor, flow, 'user-42');
+    actor.start();
+    actor.send({ type: 'NEXT', data: { name: 'Jane' } });
+    subscription.unsubscribe();
+
+    await expect(store.load('user-42')).resolves.toMatchObject({
+      snapshot: expect.objectContaining({ value: 'address' })
+    });
+    actor.stop();
+  });
+
+  it('should report snapshots taken from another flow version', async () => {
+    const store = new MemoryFlowStore();
+    const orchestrator = new FlowOrchestrator();
+    const persistence = new FlowPersistence(orchestrator, store);
+
+    const { actor } = await persistence.restore(createOnboardingFlow());
+    actor.start();
+    await persistence.save(actor, createOnboardingFlow());
+    actor.stop();
+
+    const result = await persistence.restore(createOnboardingFlow({ version: '2.0.0' }));
+    expect(result.restored).toBe(false);
+    expect(result.incompatibility).toMatchObject({
+      reason: 'version',
+      stored: { flowId: 'onboarding', version: '1.0.0' },
+      current: { flowId: 'onboarding', version: '2.0.0' }
+    });
+    expect(result.actor.getSnapshot().value).toBe('profile');
+  });
+
+  it('should report snapshots whose states no longer exist', async () => {
+    const store = new MemoryFlowStore();
+    const persistence = new FlowPersistence(new FlowOrchestrator(), store);
+    await store.save('onboarding', {
+      flowId: 'onboarding',
+      version: '1.0.0',
+      snapshot: { status: 'active', value: 'payment', context: {}, children: {}, historyValue: {} },
+      savedAt: Date.now()
+    });
+
+    const result = await persistence.restore(createOnboardingFlow());
+    expect(result.restored).toBe(false);
+    expect(result.incompatibility?.reason).toBe('snapshot');
+    expect(result.actor.getSnapshot().status).toBe('active');
+  });
+
+  it('should serialize records through async and Web Storage adapters', async () => {
+    const items = new Map<string, string>();
+    const adapter = {
+      getItem: async (key: string) => items.get(key) ?? null,
+      setItem: async (key: string, value: string) => {
+        items.set(key, value);
+      },
+      removeItem: async (key: string) => {
+        items.delete(key);
+      }
+    };
+    const record = { flowId: 'onboarding', snapshot: { value: 'address' }, savedAt: 1 };
+
+    const asyncStore = new AsyncFlowStore(adapter, 'app:');
+    await asyncStore.save('user-42', record);
+    expect(items.get('app:user-42')).toBe(JSON.stringify(record));
+    await expect(asyncStore.load('user-42')).resolves.toEqual(record);
+
+    items.set('xflows:broken', '{');
+    const storageStore = new LocalStorageFlowStore('xflows:', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key)
+    } as unknown as Storage);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(storageStore.load('broken')).resolves.toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+
+    await asyncStore.remove('user-42');
+    await expect(asyncStore.load('user-42')).resolves.toBeNull();
+  });
+});
+
+describe('FlowPersistence migrations', () => {
+  const v1: FlowConfig = {
+    id: 'onboarding',
+    name: 'Onboarding',
+    version: '1.2.0',
+    initialStep: 'profile',
+    context: { user: {} },
+    actions: { saveName: { type: 'assign', target: 'user.fullName', value: '{{event.data.name}}' } },
+    steps: [
+      { id: 'profile', name: 'Profile', view: { type: 'form' }, navigation: { onNext: { target: 'kyc', actions: 'saveName' } } },
+      { id: 'kyc', name: 'KYC', view: { type: 'form' }, navigation: { onNext: 'done' } },
+      { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} }
+    ]
+  };
+
+  const v2: FlowConfig = {
+    ...v1,
+    version: '2.0.0',
+    context: { user: {}, consent: false },
+    migrations: [
+      {
+        from: '1.x',
+        removedSteps: { kyc: 'identity' },
+        renameContext: { 'user.fullName': 'user.name' },
+        context: [{ op: 'set', path: 'consent', value: '{{context.user.name}}' }]
+      }
+    ],
+    steps: [
+      { id: 'profile', name: 'Profile', view: { type: 'form' }, navigation: { onNext: 'identity' } },
+      { id: 'identity', name: 'Identity', view: { type: 'form' }, navigation: { onNext: 'done' } },
+      { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} }
+    ]
+  };
+
+  const saveV1Session = async (persistence: FlowPersistence) => {
+    const { actor } = await persistence.restore(v1);
+    actor.start();
+    actor.send({ type: 'NEXT', data: { name: 'Jane' } });
+    await persistence.save(actor, v1);
+    actor.stop();
+  };
+
+  it('should migrate a snapshot from an older version when it is restored', async () => {
+    const persistence = new FlowPersistence(new FlowOrchestrator(), new MemoryFlowStore());
+    await saveV1Session(persistence);
+
+    const { actor, restored, migration } = await persistence.restore(v2);
+    actor.start();
+
+    expect(restored).toBe(true);
+    expect(migration?.migrations).toEqual(['1.x']);
+    expect(actor.getSnapshot().value).toBe('identity');
+    expect(actor.getSnapshot().context.user).toEqual({ name: 'Jane' });
+    expect(actor.getSnapshot().context.consent).toBe('Jane');
+    actor.stop();
+  });
+
+  it('should report the migration without applying it on a dry run', async () => {
+    const store = new MemoryFlowStore();
+    const persistence = new FlowPersistence(new FlowOrchestrator(), store);
+    await saveV1Session(persistence);
+
+    const report = await persistence.planMigration(v2);
+
+    expect(report).toMatchObject({
+      fromVersion: '1.2.0',
+      toVersion: '2.0.0',
+      success: true,
+      changes: [
+        'Moved from removed step "kyc" to "identity"',
+        'Moved context "user.fullName" to "user.name"',
+        'Applied "set" to context "consent"'
+      ]
+    });
+    await expect(store.load('onboarding')).resolves.toMatchObject({ version: '1.2.0' });
+  });
+
+  it('should chain migrations and run registered migration functions', async () => {
+    const persistence = new FlowPersistence(new FlowOrchestrator(), new MemoryFlowStore())
+      .registerMigration('splitName', ({ value, context }) => ({
+        value,
+        context: { ...context, user: { first: String((context.user as { name: string }).name).split(' ')[0] } }
+      }));
+    await saveV1Session(persistence);
+
+    const v3: FlowConfig = {
+      ...v2,
+      version: '3.0.0',
+      migrations: [
+        { from: '2.x', migrate: 'splitName' },
+        { ...(v2.migrations as NonNullable<FlowConfig['migrations']>)[0], to: '2.0.0' }
+      ]
+    };
+
+    const { actor, migration } = await persistence.restore(v3);
+    expect(migration?.migrations).toEqual(['1.x', '2.x']);
+    expect(actor.getSnapshot().context.user).toEqual({ first: 'Jane' });
+  });
+
+  it('should map renamed and removed steps in the step history and the stored error', async () => {
+    const store = new MemoryFlowStore();
+    const persistence = new FlowPersistence(new FlowOrchestrator(), store);
+    await saveV1Session(persistence);
+    // The v1 session failed on the KYC step after visiting the profile
+    const record = await store.load('onboarding');
+    const snapshot = record?.snapshot as { context: Record<string, unknown> };
+    await store.save('onboarding', {
+      ...(record as NonNullable<typeof record>),
+      snapshot: {
+        ...snapshot,
+        context: {
+          ...snapshot.context,
+          error: { message: 'KYC provider unavailable', name: 'Error', stepId: 'kyc' },
+          $history: {
+            entries: [
+              { stepId: 'profile', context: { user: {} } },
+              { stepId: 'kyc', context: { user: { fullName: 'Jane' } } }
+            ],
+            index: 1
+          }
+        }
+      }
+    });
+
+    const v2WithHistory: FlowConfig = {
+      ...v2,
+      initialStep: 'details',
+      history: { enabled: true },
+      migrations: [{ from: '1.x', renameSteps: { profile: 'details' }, removedSteps: { kyc: 'identity' } }],
+      steps: [
+        { id: 'details', name: 'Details', view: { type: 'form' }, navigation: { onNext: 'identity' } },
+        { id: 'identity', name: 'Identity', view: { type: 'form' }, navigation: { onNext: 'done' } },
+        { id: 'done', name: 'Done', view: { type: 'success' }, navigation: {} }
+      ]
+    };
+    const { actor, migration } = await persistence.restore(v2WithHistory);
+    actor.start();
+
+    expect(migration?.changes).toContain('Updated the visited steps in "$history"');
+    expect(actor.getSnapshot().value).toBe('identity');
+    expect(actor.getSnapshot().context.error).toMatchObject({ stepId: 'identity' });
+    expect(actor.getSnapshot().context.$history.entries.map((entry: { stepId: string }) => entry.stepId))
+      .toEqual(['details', 'identity']);
+
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('details');
+    actor.stop();
+  });
+
+  it('should report versions no migration covers', async () => {
+    const persistence = new FlowPersistence(new FlowOrchestrator(), new MemoryFlowStore());
+    await saveV1Session(persistence);
+
+    const result = await persistence.restore({ ...v2, migrations: [{ from: '^0.9.0', renameSteps: { kyc: 'identity' } }] });
+
+    expect(result.restored).toBe(false);
+    expect(result.incompatibility?.reason).toBe('version');
+    expect(result.incompatibility?.message).toContain('No migration from version 1.2.0');
+  });
+
+  it('should reject migrations that map steps to missing steps', () => {
+    expect(() => new FlowOrchestrator().orchestrate({ ...v2, migrations: [{ from: '1.x', removedSteps: { kyc: 'missing' } }] }))
+      .toThrow(/Migration from "1.x" maps step "kyc" to non-existent step "missing"/);
+  });
+});
+
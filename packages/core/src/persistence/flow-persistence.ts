@@ -0,0 +1,201 @@
+/**
+ * Flow Persistence
+ * Saves flow actors to a `FlowStore` and resumes them later
+ *
+ * A record holds the XState persisted snapshot together with the flow id and
+ * version it was taken from. Restoring checks both against the current
+ * `FlowConfig`; records from an older version go through the flow migrations,
+ * and an incompatible record is reported and a fresh actor is started instead.
+ */
+
+import { createActor, type Actor, type ActorOptions, type Subscription } from 'xstate';
+import type { FlowOrchestrator } from '../engine/flow-orchestrator';
+import { TemplateParser } from '../parser/template-parser';
+import type { FlowConfig, MigrationReport, PersistedFlow, SnapshotIncompatibility } from '../types';
+import { FlowMigrator, type MigrationFunction } from './flow-migrator';
+import type { FlowStore } from './flow-store';
+
+export type FlowMachine = ReturnType<FlowOrchestrator['orchestrate']>;
+
+export interface RestoreOptions {
+  // Store key (default: the flow id)
+  key?: string;
+  // Machine to restore into, when the caller already orchestrated the flow
+  machine?: FlowMachine;
+  actorOptions?: Omit<ActorOptions<FlowMachine>, 'snapshot'>;
+}
+
+export interface FlowRestoreResult {
+  // Not started yet
+  actor: Actor<FlowMachine>;
+  restored: boolean;
+  incompatibility?: SnapshotIncompatibility;
+  // Set when the stored snapshot was migrated from an older flow version
+  migration?: MigrationReport;
+}
+
+export class FlowPersistence {
+  private orchestrator: FlowOrchestrator;
+  private store: FlowStore;
+  private migrator: FlowMigrator;
+
+  constructor(orchestrator: FlowOrchestrator, store: FlowStore) {
+    this.orchestrator = orchestrator;
+    this.store = store;
+    this.migrator = new FlowMigrator(new TemplateParser());
+  }
+
+  /**
+   * Register a migration function that `FlowMigration.migrate` can reference
+   */
+  registerMigration(name: string, migration: MigrationFunction): this {
+    this.migrator.register(name, migration);
+    return this;
+  }
+
+  /**
+   * Save the current snapshot of a flow actor
+   */
+  async save(actor: Actor<FlowMachine>, flowConfig: FlowConfig, key = flowConfig.id): Promise<PersistedFlow> {
+    const record: PersistedFlow = {
+      flowId: flowConfig.id,
+      ...(flowConfig.version !== undefined ? { version: flowConfig.version } : {}),
+      snapshot: actor.getPersistedSnapshot(),
+      savedAt: Date.now()
+    };
+
+    await this.store.save(key, record);
+    return record;
+  }
+
+  /**
+   * Save the actor every time its snapshot changes, until unsubscribed
+   */
+  persist(actor: Actor<FlowMachine>, flowConfig: FlowConfig, key = flowConfig.id): Subscription {
+    return actor.subscribe(() => {
+      this.save(actor, flowConfig, key).catch(error => console.warn(`Failed to persist flow "${key}":`, error));
+    });
+  }
+
+  /**
+   * Create an actor for the flow, resumed from its stored snapshot when there is a compatible one
+   */
+  async restore(flowConfig: FlowConfig, options: RestoreOptions = {}): Promise<FlowRestoreResult> {
+    const machine = options.machine || this.orchestrator.orchestrate(flowConfig);
+    const record = await this.store.load(options.key || flowConfig.id);
+
+    if (!record) {
+      return { actor: createActor(machine, options.actorOptions), restored: false };
+    }
+
+    let stored = record.snapshot;
+    let migration: MigrationReport | undefined;
+
+    const incompatibility = this.checkCompatibility(record, flowConfig);
+    if (incompatibility?.reason === 'version') {
+      migration = this.migrator.migrate(record, flowConfig);
+      if (!migration.success) {
+        return {
+          actor: createActor(machine, options.actorOptions),
+          restored: false,
+          incompatibility: { ...incompatibility, message: `${incompatibility.message}: ${migration.error}` },
+          migration
+        };
+      }
+      stored = migration.snapshot;
+    } else if (incompatibility) {
+      return { actor: createActor(machine, options.actorOptions), restored: false, incompatibility };
+    }
+
+    // XState reports snapshots it cannot resolve (e.g. unknown states) as an errored actor
+    const actor = createActor(machine, { ...options.actorOptions, snapshot: stored as never });
+    const snapshot = actor.getSnapshot();
+    if (snapshot.status === 'error') {
+      const error = snapshot.error;
+      return {
+        actor: createActor(machine, options.actorOptions),
+        restored: false,
+        incompatibility: this.createIncompatibility(
+          'snapshot',
+          `Stored snapshot cannot be restored: ${error instanceof Error ? error.message : String(error)}`,
+          record,
+          flowConfig
+        ),
+        ...(migration ? { migration } : {})
+      };
+    }
+
+    return { actor, restored: true, ...(migration ? { migration } : {}) };
+  }
+
+  /**
+   * Dry run: report how the stored snapshot would be migrated to the current flow version,
+   * without saving anything or creating an actor
+   */
+  async planMigration(flowConfig: FlowConfig, key = flowConfig.id): Promise<MigrationReport | null> {
+    const record = await this.store.load(key);
+    if (!record) {
+      return null;
+    }
+
+    const incompatibility = this.checkCompatibility(record, flowConfig);
+    if (incompatibility?.reason === 'flowId') {
+      return {
+        fromVersion: record.version,
+        toVersion: flowConfig.version,
+        migrations: [],
+        changes: [],
+        success: false,
+        error: incompatibility.message
+      };
+    }
+
+    return this.migrator.migrate(record, flowConfig);
+  }
+
+  /**
+   * Remove the stored snapshot of a flow
+   */
+  async clear(key: string): Promise<void> {
+    await this.store.remove(key);
+  }
+
+  /**
+   * Check a stored record against the current flow configuration
+   */
+  checkCompatibility(record: PersistedFlow, flowConfig: FlowConfig): SnapshotIncompatibility | null {
+    if (record.flowId !== flowConfig.id) {
+      return this.createIncompatibility(
+        'flowId',
+        `Stored snapshot belongs to flow "${record.flowId}", not "${flowConfig.id}"`,
+        record,
+        flowConfig
+      );
+    }
+
+    if (record.version !== flowConfig.version) {
+      return this.createIncompatibility(
+        'version',
+        `Stored snapshot was taken from version ${record.version ?? '(none)'} of flow "${flowConfig.id}", current version is ${flowConfig.version ?? '(none)'}`,
+        record,
+        flowConfig
+      );
+    }
+
+    return null;
+  }
+
+  private createIncompatibility(
+    reason: SnapshotIncompatibility['reason'],
+    message: string,
+    record: PersistedFlow,
+    flowConfig: FlowConfig
+  ): SnapshotIncompatibility {
+    return {
+      reason,
+      message,
+      stored: { flowId: record.flowId, version: record.version },
+      current: { flowId: flowConfig.id, version: flowConfig.version }
+    };
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Flow Stores
+ * Where persisted flow snapshots are kept between sessions
+ *
+ * Every store is asynchronous so that remote or native storage can be plugged in
+ * through `AsyncFlowStore`; records are serialized as JSON.
+ */
+
+import type { PersistedFlow } from '../types';
+
+export interface FlowStore {
+  load(key: string): Promise<PersistedFlow | null>;
+  save(key: string, record: PersistedFlow): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Key/value storage backing an `AsyncFlowStore` (AsyncStorage, IndexedDB wrappers, a REST API...)
+ */
+export interface FlowStoreAdapter {
+  getItem(key: string): Promise<string | null> | string | null;
+  setItem(key: string, value: string): Promise<void> | void;
+  removeItem(key: string): Promise<void> | void;
+}
+
+/**
+ * Store keeping records in memory, e.g. for tests or server-side rendering
+ */
+export class MemoryFlowStore implements FlowStore {
+  private records = new Map<string, string>();
+
+  async load(key: string): Promise<PersistedFlow | null> {
+    const value = this.records.get(key);
+    return value === undefined ? null : (JSON.parse(value) as PersistedFlow);
+  }
+
+  async save(key: string, record: PersistedFlow): Promise<void> {
+    // Serialize like the other stores so that non-JSON values are caught early
+    this.records.set(key, JSON.stringify(record));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Store delegating to a pluggable key/value adapter
+ */
+export class AsyncFlowStore implements FlowStore {
+  private adapter: FlowStoreAdapter;
+  private prefix: string;
+
+  constructor(adapter: FlowStoreAdapter, prefix = 'xflows:') {
+    this.adapter = adapter;
+    this.prefix = prefix;
+  }
+
+  async load(key: string): Promise<PersistedFlow | null> {
+    const value = await this.adapter.getItem(this.prefix + key);
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as PersistedFlow;
+    } catch (error) {
+      console.warn(`Stored flow "${key}" could not be parsed:`, error);
+      return null;
+    }
+  }
+
+  async save(key: string, record: PersistedFlow): Promise<void> {
+    await this.adapter.setItem(this.prefix + key, JSON.stringify(record));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.adapter.removeItem(this.prefix + key);
+  }
+}
+
+/**
+ * Store backed by `localStorage` (or any Web Storage object)
+ */
+export class LocalStorageFlowStore extends AsyncFlowStore {
+  constructor(prefix = 'xflows:', storage: Storage = globalThis.localStorage) {
+    super(storage, prefix);
+  }
+}
@@ -13,19 +13,153 @@ export interface FlowConfig {
   guards?: Record<string, GuardConfig>;
   actors?: Record<string, ActorConfig>;
   plugins?: Record<string, PluginConfig>;
+  // JSON Schema of the context; the context paths templates and JSON Logic `var`s read are checked against it
+  contextSchema?: Record<string, unknown>;
+  // JSON Schema the flow output must satisfy when the flow finishes
+  output?: Record<string, unknown>;
+  errorHandling?: ErrorHandlingConfig;
+  history?: HistoryConfig;
+  // Upgrades for snapshots saved by earlier versions of this flow, tried in order
+  migrations?: FlowMigration[];
   steps: Step[];
 }
 
+export interface FlowMigration {
+  // Version range of the snapshots this migration upgrades, e.g. `1.x` or `>=1.0.0 <1.4.0`
+  from: string;
+  // Version of the snapshot after this migration (default: the flow version)
+  to?: string;
+  // Old step id -> new step id
+  renameSteps?: Record<string, string>;
+  // Removed step id -> step to resume at instead
+  removedSteps?: Record<string, string>;
+  // Old context path -> new context path
+  renameContext?: Record<string, string>;
+  // Patches applied to the context; values are templates resolved against `{ context }`
+  context?: ContextPatch[];
+  // Name of a migration function registered with `FlowPersistence.registerMigration`
+  migrate?: string;
+}
+
+export interface MigrationReport {
+  fromVersion?: string;
+  toVersion?: string;
+  // `from` ranges of the migrations applied, in order
+  migrations: string[];
+  // Human-readable description of every change
+  changes: string[];
+  success: boolean;
+  error?: string;
+  // Migrated persisted snapshot
+  snapshot?: unknown;
+}
+
+export interface ErrorHandlingConfig {
+  // Step that handles errors; the step with id `error`, else the built-in `error` state, when omitted
+  step?: string;
+  // Where RETRY goes from the error step (default: re-enter the failed step with its last input)
+  retry?: 'failedStep' | 'initialStep';
+  // Context path where the current error is stored (default: `error`)
+  contextPath?: string;
+}
+
+export interface HistoryConfig {
+  // Record visited steps for BACK, UNDO, REDO and jumps (default: false)
+  enabled?: boolean;
+  // Context path where the history is kept (default: `$history`)
+  contextPath?: string;
+  // Maximum number of entries kept; the oldest are dropped first (default: 50)
+  limit?: number;
+}
+
+export interface HistoryEntry {
+  stepId: string;
+  // Context when the step was entered, without the history itself
+  context: Record<string, unknown>;
+}
+
+export interface FlowHistoryState {
+  entries: HistoryEntry[];
+  // Entry of the current step
+  index: number;
+}
+
+export interface FlowError {
+  message: string;
+  name: string;
+  code?: string;
+  stepId?: string;
+  hookId?: string;
+  // Event that entered the failed step, replayed on RETRY
+  input?: Record<string, unknown>;
+}
+
+// Plugin lifecycle callbacks, dispatched for every running flow actor
+export type FlowLifecycleHook = 'onFlowStart' | 'onStepEnter' | 'onStepExit' | 'onTransition' | 'onError' | 'onFlowComplete';
+
+export interface FlowLifecycleEvent {
+  flowId: string;
+  // Session id of the flow actor
+  sessionId: string;
+  context: Record<string, unknown>;
+  // Event being processed
+  event: Record<string, unknown>;
+  // Step entered or left (onStepEnter, onStepExit), or that failed (onError)
+  stepId?: string;
+  // Steps a transition leaves and enters (onTransition)
+  from?: string;
+  to?: string;
+  // Error stored by the flow (onError)
+  error?: FlowError;
+  // Output of the finished flow (onFlowComplete)
+  output?: unknown;
+}
+
+/**
+ * Optional callbacks of plugins observing every running flow; failures are reported
+ * without affecting the flow
+ */
+export interface PluginLifecycle {
+  onFlowStart?(event: FlowLifecycleEvent): void | Promise<void>;
+  onStepEnter?(event: FlowLifecycleEvent): void | Promise<void>;
+  onStepExit?(event: FlowLifecycleEvent): void | Promise<void>;
+  // From the last step left to the step entered
+  onTransition?(event: FlowLifecycleEvent): void | Promise<void>;
+  onError?(event: FlowLifecycleEvent): void | Promise<void>;
+  onFlowComplete?(event: FlowLifecycleEvent): void | Promise<void>;
+}
+
 export interface Step {
   id: string;
   name: string;
-  view: ViewConfig;
+  // Required for steps that render; optional for step groups and sub-flow steps
+  view?: ViewConfig;
   hooks?: {
     before?: Hook[];
     after?: Hook[];
   };
   invoke?: InvokeConfig;
   navigation: Navigation;
+  // Step group (section): child steps compile to a compound state
+  steps?: Step[];
+  initialStep?: string;
+  // Parallel regions (each one a step group) and when they join before `navigation.onNext`
+  regions?: Step[];
+  join?: 'all' | 'any';
+  // Embedded child flow, referenced by FlowConfig id
+  subFlow?: SubFlowConfig;
+  // Reaching a final step completes the enclosing group, sub-flow or flow
+  final?: boolean;
+  // Output of a final step, with templates resolved against `{ context, event }`
+  output?: unknown;
+  // Per-step override of the flow error handling
+  errorHandling?: Pick<ErrorHandlingConfig, 'step' | 'retry'>;
+}
+
+export interface SubFlowConfig {
+  flowId: string;
+  input?: unknown;
+  output?: string | Record<string, unknown>;
 }
 
 export interface ViewConfig {
@@ -35,8 +169,12 @@ export interface ViewConfig {
   message?: string;
   template?: string;
   fields?: FormField[];
+  // Cross-field rules checked after the fields themselves
+  rules?: FormRule[];
   content?: Record<string, unknown>;
   actions?: ViewAction[];
+  // Choices of a decision view
+  options?: DecisionOption[];
   data?: string;
   moduleId?: string;
   moduleUrl?: string;
@@ -59,12 +197,73 @@ export interface FormField {
   maxLength?: number;
   accept?: string;
   maxSize?: string;
-  options?: Array<{ value: string; label: string }>;
-  validation?: {
-    minLength?: number;
-    maxLength?: number;
-    pattern?: string;
-  };
+  // Static options, or options read from context (e.g. an actor or hook result stored there)
+  options?: FieldOption[] | FieldOptionsSource;
+  validation?: FieldValidation;
+  // JSON Logic conditions evaluated against `{ ...data, data, context }` with the form data
+  visibleWhen?: unknown;
+  requiredWhen?: unknown;
+  disabledWhen?: unknown;
+}
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+export interface FieldOptionsSource {
+  // Template resolving to an array, e.g. `{{context.countries}}`, resolved against `{ context, data }`
+  from: string;
+  // Path of the value and label in each item (default: the item itself)
+  value?: string;
+  label?: string;
+}
+
+export type FieldValidationRule =
+  | 'required'
+  | 'type'
+  | 'min'
+  | 'max'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'options'
+  | 'maxSize'
+  | 'accept'
+  | 'rule';
+
+export interface FieldValidation {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Messages replacing the default ones, per rule
+  messages?: Partial<Record<FieldValidationRule, string>>;
+}
+
+export interface FormRule {
+  // JSON Logic evaluated against `{ ...data, data, context }`; the form is invalid when it is falsy
+  expression: unknown;
+  message: string;
+  // Field the error is reported on (default: the whole form, under `$form`)
+  field?: string;
+}
+
+export interface FieldError {
+  field: string;
+  rule: FieldValidationRule;
+  message: string;
+}
+
+// Errors of a submitted form by field name
+export type FormErrors = Record<string, FieldError[]>;
+
+export interface DecisionOption {
+  label: string;
+  // Event sent when the option is chosen: `NEXT` or another event the step navigates on
+  event: string;
+  description?: string;
+  // Sent as the event data
+  data?: unknown;
 }
 
 export interface ViewAction {
@@ -75,7 +274,7 @@ export interface ViewAction {
 
 export interface Hook {
   id: string;
-  type: 'http_call' | 'assign' | 'log' | 'analytics' | 'delay' | 'condition';
+  type: 'http_call' | 'assign' | 'log' | 'analytics' | 'delay' | 'condition' | 'tool';
   endpoint?: string;
   method?: string;
   body?: unknown;
@@ -92,6 +291,13 @@ export interface Hook {
   onFalse?: Hook[];
   updateContext?: string;
   onError?: 'fail' | 'ignore';
+  // How an assign hook writes `value` to `target` (default: set)
+  operation?: ContextPatch['op'];
+  // Tool hooks: see `ToolCall`
+  tool?: string;
+  toolName?: string;
+  parameters?: unknown;
+  mapResult?: Record<string, string>;
 }
 
 export interface Navigation {
@@ -108,39 +314,138 @@ export interface NavigationConfig {
   actions?: string | string[];
 }
 
+export interface TransitionBranch {
+  index: number;
+  target: string;
+  guard?: string;
+  actions: string[];
+  isDefault: boolean;
+}
+
+export interface BranchEvaluation extends TransitionBranch {
+  matched: boolean;
+}
+
+export interface TransitionExplanation {
+  stepId: string;
+  event: string;
+  branches: BranchEvaluation[];
+  taken: TransitionBranch | null;
+}
+
 export interface InvokeConfig {
-  id: string;
+  id?: string;
   src: string;
-  input: unknown;
-  onDone?: NavigationConfig;
-  onError?: NavigationConfig;
+  input?: unknown;
+  onDone?: string | NavigationConfig | NavigationConfig[];
+  onError?: string | NavigationConfig | NavigationConfig[];
+  // Context path the actor output is written to, and output paths mapped into context, before `onDone`
+  updateContext?: string;
+  mapResult?: Record<string, string>;
 }
 
 export interface ActionConfig {
-  type: 'assign' | 'log' | 'analytics';
+  // Built-in types, the type of a registered action handler or the id of an action plugin
+  type: 'assign' | 'log' | 'analytics' | 'tool' | (string & {});
   target?: string;
   value?: unknown;
   message?: string;
+  level?: 'info' | 'warn' | 'error';
   event?: string;
   data?: unknown;
+  config?: unknown;
+  // How an assign action writes `value` to `target` (default: set)
+  operation?: ContextPatch['op'];
+  // Tool actions: see `ToolCall`
+  tool?: string;
+  toolName?: string;
+  parameters?: unknown;
+  updateContext?: string;
+  mapResult?: Record<string, string>;
+}
+
+// Call of a tool plugin by a `tool` hook or action; steps can also invoke `src: 'tool:<id>'`
+export interface ToolCall {
+  // Id of the tool plugin
+  tool: string;
+  // Tool name passed to the plugin (default: the tool id)
+  toolName?: string;
+  // Templates resolved against `{ context, event }`
+  parameters?: unknown;
+  // Context path the result is written to
+  updateContext?: string;
+  // Context path -> result path (`$`, `$.premium.total`), like the `mapResult` of the HTTP action plugin
+  mapResult?: Record<string, string>;
+}
+
+export interface ContextPatch {
+  op: 'set' | 'merge' | 'push' | 'remove';
+  // Dot-notation context path, e.g. `user.addresses`
+  path: string;
+  value?: unknown;
+  // `remove` on an array: index of the item to drop (otherwise items equal to `value` are dropped)
+  index?: number;
+}
+
+// Result of hooks, actions and plugins that update context
+export interface ContextPatchResult {
+  data: unknown;
+  patches: ContextPatch[];
+}
+
+export interface PatchLogEntry {
+  // What produced the patches, e.g. `hook:loadUser` or `action:savePremium`
+  source: string;
+  patches: ContextPatch[];
+  // Patches restoring the context as it was before this entry
+  inverse: ContextPatch[];
+  timestamp: number;
+}
+
+export interface PersistedFlow {
+  flowId: string;
+  version?: string;
+  // XState persisted snapshot of the flow actor
+  snapshot: unknown;
+  savedAt: number;
+}
+
+export interface SnapshotIncompatibility {
+  reason: 'flowId' | 'version' | 'snapshot';
+  message: string;
+  stored: { flowId: string; version?: string };
+  current: { flowId: string; version?: string };
 }
 
 export interface GuardConfig {
-  type: 'jsonLogic' | 'simple';
+  type: 'jsonLogic' | 'simple' | (string & {});
   expression?: unknown;
   condition?: string;
+  config?: unknown;
 }
 
 export interface ActorConfig {
-  type: 'fromPromise';
+  // Built-in HTTP actor, or the id of an actor plugin
+  type: 'fromPromise' | (string & {});
   endpoint?: string;
   method?: string;
   body?: unknown;
+  // Configuration passed to the actor plugin
+  config?: unknown;
 }
 
+// Plugin a flow needs, keyed by plugin id in `FlowConfig.plugins`; created by a plugin manager
 export interface PluginConfig {
-  type: 'actor' | 'action';
-  config: unknown;
+  type: 'actor' | 'action' | 'guard' | 'ui-component' | 'tool';
+  name?: string;
+  version?: string;
+  dependencies?: string[];
+  // Key of the factory creating the plugin (default: the plugin id, then its type)
+  factory?: string;
+  // Module exporting the factory, imported when no factory is registered
+  module?: string;
+  // Options passed to the factory
+  config?: unknown;
 }
 
 export interface TemplateData {
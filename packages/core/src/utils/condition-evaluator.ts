@@ -0,0 +1,281 @@
+/**
+ * Condition Evaluator
+ * Evaluates `simple` guard conditions such as `context.age >= 18 && event.data.accepted`
+ *
+ * The language is a small, safe subset of JavaScript expressions:
+ * - literals: numbers, 'single' or "double" quoted strings, true, false, null, undefined
+ * - paths: `context.user.name`, `items[0].id`
+ * - operators: `||`, `&&`, `==`, `!=`, `===`, `!==`, `<`, `<=`, `>`, `>=`, `+`, `-`, `*`, `/`, `%`, `!`
+ * - parentheses for grouping
+ *
+ * Nothing is executed with `eval`; conditions are parsed once and cached.
+ */
+
+import { getByPath } from './object-path';
+
+type CompiledCondition = (data: Record<string, unknown>) => unknown;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'bracket' | 'dot';
+  value: string;
+  position: number;
+}
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+(?:\.\d+)?)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([A-Za-z_$][\w$]*)|(===|!==|==|!=|<=|>=|&&|\|\||[<>+\-*/%!])|([()])|([[\]])|(\.))/y;
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+const BINARY_OPERATORS: Record<string, (left: unknown, right: unknown) => unknown> = {
+  // biome-ignore lint/suspicious/noDoubleEquals: loose equality is part of the condition language
+  '==': (left, right) => left == right,
+  // biome-ignore lint/suspicious/noDoubleEquals: loose equality is part of the condition language
+  '!=': (left, right) => left != right,
+  '===': (left, right) => left === right,
+  '!==': (left, right) => left !== right,
+  '<': (left, right) => (left as number) < (right as number),
+  '<=': (left, right) => (left as number) <= (right as number),
+  '>': (left, right) => (left as number) > (right as number),
+  '>=': (left, right) => (left as number) >= (right as number),
+  '+': (left, right) => (left as number) + (right as number),
+  '-': (left, right) => (left as number) - (right as number),
+  '*': (left, right) => (left as number) * (right as number),
+  '/': (left, right) => (left as number) / (right as number),
+  '%': (left, right) => (left as number) % (right as number),
+};
+
+// Binary operator precedence levels, lowest first ('||' and '&&' are handled separately)
+const PRECEDENCE: string[][] = [
+  ['==', '!=', '===', '!=='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+export class ConditionEvaluator {
+  private cache = new Map<string, CompiledCondition>();
+
+  /**
+   * Evaluate condition against data and return its truthiness
+   */
+  evaluate(condition: string, data: Record<string, unknown>): boolean {
+    return Boolean(this.compile(condition)(data));
+  }
+
+  /**
+   * Parse condition into a reusable function, throwing on syntax errors
+   */
+  compile(condition: string): CompiledCondition {
+    const cached = this.cache.get(condition);
+    if (cached) {
+      return cached;
+    }
+
+    // Conditions may be wrapped in template braces: `{{context.user.role === 'admin'}}`
+    const unwrapped = condition.trim().replace(/^\{\{([\s\S]*)\}\}$/, '$1');
+    const compiled = new ConditionParser(unwrapped).parse();
+    this.cache.set(condition, compiled);
+    return compiled;
+  }
+}
+
+class ConditionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = this.tokenize(source);
+  }
+
+  parse(): CompiledCondition {
+    if (this.tokens.length === 0) {
+      throw this.error('empty condition');
+    }
+
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw this.error(`unexpected "${token.value}"`, token.position);
+    }
+    return expression;
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+      if (/^\s*$/.test(source.slice(TOKEN_PATTERN.lastIndex))) {
+        break;
+      }
+
+      const position = TOKEN_PATTERN.lastIndex;
+      const match = TOKEN_PATTERN.exec(source);
+      if (!match) {
+        throw this.error(`unexpected character "${source[position]}"`, position);
+      }
+
+      const [, number, single, double, identifier, operator, paren, bracket, dot] = match;
+      if (number !== undefined) tokens.push({ type: 'number', value: number, position });
+      else if (single !== undefined) tokens.push({ type: 'string', value: single.replace(/\\(.)/g, '$1'), position });
+      else if (double !== undefined) tokens.push({ type: 'string', value: double.replace(/\\(.)/g, '$1'), position });
+      else if (identifier !== undefined) tokens.push({ type: 'identifier', value: identifier, position });
+      else if (operator !== undefined) tokens.push({ type: 'operator', value: operator, position });
+      else if (paren !== undefined) tokens.push({ type: 'paren', value: paren, position });
+      else if (bracket !== undefined) tokens.push({ type: 'bracket', value: bracket, position });
+      else if (dot !== undefined) tokens.push({ type: 'dot', value: dot, position });
+    }
+
+    return tokens;
+  }
+
+  private parseOr(): CompiledCondition {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      const lhs = left;
+      const rhs = this.parseAnd();
+      left = (data) => lhs(data) || rhs(data);
+    }
+    return left;
+  }
+
+  private parseAnd(): CompiledCondition {
+    let left = this.parseBinary(0);
+    while (this.matchOperator('&&')) {
+      const lhs = left;
+      const rhs = this.parseBinary(0);
+      left = (data) => lhs(data) && rhs(data);
+    }
+    return left;
+  }
+
+  private parseBinary(level: number): CompiledCondition {
+    if (level >= PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let operator = this.matchOperator(...PRECEDENCE[level]);
+    while (operator) {
+      const lhs = left;
+      const rhs = this.parseBinary(level + 1);
+      const apply = BINARY_OPERATORS[operator];
+      left = (data) => apply(lhs(data), rhs(data));
+      operator = this.matchOperator(...PRECEDENCE[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): CompiledCondition {
+    if (this.matchOperator('!')) {
+      const operand = this.parseUnary();
+      return (data) => !operand(data);
+    }
+
+    if (this.matchOperator('-')) {
+      const operand = this.parseUnary();
+      return (data) => -(operand(data) as number);
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): CompiledCondition {
+    const token = this.next();
+    if (!token) {
+      throw this.error('unexpected end of condition');
+    }
+
+    switch (token.type) {
+      case 'number': {
+        const value = Number(token.value);
+        return () => value;
+      }
+
+      case 'string':
+        return () => token.value;
+
+      case 'paren': {
+        if (token.value !== '(') {
+          throw this.error('unexpected ")"', token.position);
+        }
+        const expression = this.parseOr();
+        this.expect('paren', ')');
+        return expression;
+      }
+
+      case 'identifier':
+        if (token.value in LITERALS) {
+          const value = LITERALS[token.value];
+          return () => value;
+        }
+        return this.parsePath(token.value);
+
+      default:
+        throw this.error(`unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  private parsePath(root: string): CompiledCondition {
+    const segments = [root];
+
+    for (;;) {
+      const token = this.peek();
+      if (token?.type === 'dot') {
+        this.next();
+        segments.push(this.expect('identifier').value);
+      } else if (token?.type === 'bracket' && token.value === '[') {
+        this.next();
+        const index = this.next();
+        if (!index || (index.type !== 'number' && index.type !== 'string')) {
+          throw this.error('expected index inside "[]"', token.position);
+        }
+        segments.push(index.value);
+        this.expect('bracket', ']');
+      } else {
+        break;
+      }
+    }
+
+    const path = segments.join('.');
+    return (data) => getByPath(data, path);
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expect(type: Token['type'], value?: string): Token {
+    const token = this.next();
+    if (!token || token.type !== type || (value !== undefined && token.value !== value)) {
+      throw this.error(
+        `expected ${value ? `"${value}"` : type}${token ? ` but found "${token.value}"` : ''}`,
+        token?.position
+      );
+    }
+    return token;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private error(message: string, position?: number): Error {
+    const at = position !== undefined ? ` at position ${position}` : '';
+    return new Error(`Invalid condition "${this.source}": ${message}${at}`);
+  }
+}
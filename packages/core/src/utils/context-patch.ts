@@ -0,0 +1,196 @@
+/**
+ * Context Patches
+ * Immutable context updates described as data
+ *
+ * Hooks, actions and plugins never write to the context they receive. They return
+ * patches (dot-path sets, object merges, array pushes and removals) that the
+ * orchestrator applies through `assign`. Every applied batch is recorded in a
+ * per-actor patch log, together with the inverse patches that undo it.
+ */
+
+import { assign, type AnyActorRef, type EventObject } from 'xstate';
+import type { ContextPatch, ContextPatchResult, PatchLogEntry } from '../types';
+import { getByPath, setByPath } from './object-path';
+
+/**
+ * Event carrying patches resolved after an action finished (e.g. an async action plugin)
+ */
+export const PATCH_EVENT = 'xflows.patch';
+
+/**
+ * Event that reverts the last logged patch batch
+ */
+export const UNDO_PATCH_EVENT = 'xflows.patch.undo';
+
+// Entries kept per actor; the oldest ones are dropped first
+const PATCH_LOG_LIMIT = 100;
+
+type AssignArgs = { context: Record<string, unknown>; event: EventObject; self: AnyActorRef };
+
+/**
+ * Apply a single patch, returning a new context
+ */
+export function applyPatch(context: Record<string, unknown>, patch: ContextPatch): Record<string, unknown> {
+  const current = getByPath(context, patch.path);
+
+  switch (patch.op) {
+    case 'set':
+      return setByPath(context, patch.path, patch.value);
+
+    case 'merge':
+      return setByPath(
+        context,
+        patch.path,
+        isPlainObject(current) && isPlainObject(patch.value) ? { ...current, ...patch.value } : patch.value
+      );
+
+    case 'push':
+      return setByPath(context, patch.path, [...(Array.isArray(current) ? current : []), patch.value]);
+
+    case 'remove':
+      if (Array.isArray(current) && (patch.index !== undefined || 'value' in patch)) {
+        return setByPath(
+          context,
+          patch.path,
+          patch.index !== undefined
+            ? current.filter((_, index) => index !== patch.index)
+            : current.filter(item => !isEqual(item, patch.value))
+        );
+      }
+      return removeByPath(context, patch.path);
+
+    default:
+      throw new Error(`Unsupported context patch operation "${(patch as { op: string }).op}"`);
+  }
+}
+
+/**
+ * Apply patches in order, returning a new context
+ */
+export function applyPatches(context: Record<string, unknown>, patches: ContextPatch[]): Record<string, unknown> {
+  return patches.reduce(applyPatch, context);
+}
+
+/**
+ * Compute the patches that restore `context` after `patches` have been applied to it
+ */
+export function invertPatches(context: Record<string, unknown>, patches: ContextPatch[]): ContextPatch[] {
+  const inverse: ContextPatch[] = [];
+  let current = context;
+
+  for (const patch of patches) {
+    inverse.unshift(
+      hasPath(current, patch.path)
+        ? { op: 'set', path: patch.path, value: getByPath(current, patch.path) }
+        : { op: 'remove', path: patch.path }
+    );
+    current = applyPatch(current, patch);
+  }
+
+  return inverse;
+}
+
+/**
+ * Check whether a hook, action or plugin result carries context patches
+ */
+export function isContextPatchResult(value: unknown): value is ContextPatchResult {
+  return isPlainObject(value) && Array.isArray(value.patches) && 'data' in value;
+}
+
+export class ContextPatcher {
+  // Patch log per running actor
+  private logs = new WeakMap<AnyActorRef, PatchLogEntry[]>();
+
+  /**
+   * Apply patches on behalf of an actor and record them in its patch log
+   */
+  apply(
+    actor: AnyActorRef,
+    source: string,
+    context: Record<string, unknown>,
+    patches: ContextPatch[]
+  ): Record<string, unknown> {
+    if (patches.length === 0) {
+      return context;
+    }
+
+    const log = this.logs.get(actor) || [];
+    log.push({ source, patches, inverse: invertPatches(context, patches), timestamp: Date.now() });
+    this.logs.set(actor, log.slice(-PATCH_LOG_LIMIT));
+
+    return applyPatches(context, patches);
+  }
+
+  /**
+   * Create an assign action applying the patches resolved from the current context and event
+   */
+  createAction(source: string, resolve: (context: Record<string, unknown>, event: EventObject) => ContextPatch[]) {
+    return assign(({ context, event, self }: AssignArgs) => this.apply(self, source, context, resolve(context, event)));
+  }
+
+  /**
+   * Create the action handling PATCH_EVENT
+   */
+  createEventAction() {
+    return assign(({ context, event, self }: AssignArgs) => {
+      const { source, patches } = event as EventObject & { source?: string; patches?: ContextPatch[] };
+      return this.apply(self, source || PATCH_EVENT, context, patches || []);
+    });
+  }
+
+  /**
+   * Create the actions handling UNDO_PATCH_EVENT: the assign only reads the last log entry,
+   * the entry is dropped from the log once the actions execute
+   */
+  createUndoAction() {
+    return [
+      assign(({ context, self }: AssignArgs) => {
+        const log = this.logs.get(self) || [];
+        const entry = log[log.length - 1];
+        return entry ? applyPatches(context, entry.inverse) : context;
+      }),
+      ({ self }: { self: AnyActorRef }) => {
+        this.logs.get(self)?.pop();
+      }
+    ];
+  }
+
+  /**
+   * Patch log of an actor, oldest entry first
+   */
+  getLog(actor: AnyActorRef): PatchLogEntry[] {
+    return [...(this.logs.get(actor) || [])];
+  }
+}
+
+function removeByPath(context: Record<string, unknown>, path: string): Record<string, unknown> {
+  const keys = path.split('.');
+  const key = keys.pop() as string;
+  const parentPath = keys.join('.');
+  const parent = parentPath ? getByPath(context, parentPath) : context;
+
+  if (Array.isArray(parent)) {
+    return setByPath(context, parentPath, parent.filter((_, index) => index !== Number(key)));
+  }
+  if (!isPlainObject(parent) || !(key in parent)) {
+    return context;
+  }
+
+  const { [key]: _removed, ...rest } = parent;
+  return parentPath ? setByPath(context, parentPath, rest) : rest;
+}
+
+function hasPath(context: Record<string, unknown>, path: string): boolean {
+  const keys = path.split('.');
+  const key = keys.pop() as string;
+  const parent = keys.length > 0 ? getByPath(context, keys.join('.')) : context;
+  return parent !== null && typeof parent === 'object' && key in parent;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return left === right || JSON.stringify(left) === JSON.stringify(right);
+}
@@ -1,99 +1,280 @@
 /**
  * Hook Processor
- * Processes before/after action hooks
+ * Processes before/after step hooks
+ *
+ * Synchronous hooks (assign, log, analytics, condition) run as XState actions.
+ * Asynchronous hooks (http_call, delay, tool, or conditions containing them) run as actors
+ * that resolve with the context patches to apply once they finish.
  */
 
-import { TemplateParser } from '../parser/template-parser';
-import { HttpClient } from './http-client';
-import type { Hook } from '../types';
+import { assign, enqueueActions, fromPromise, raise, type AnyActorLogic } from 'xstate';
+import type { TemplateParser } from '../parser/template-parser';
+import type { HttpClient } from './http-client';
+import { JsonLogicEvaluator } from './json-logic-evaluator';
+import { applyPatches, ContextPatcher } from './context-patch';
+import type { ContextPatch, Hook } from '../types';
+import type { ToolRunner } from '../engine/tool-runner';
+
+/**
+ * Event raised when a hook with `onError: 'fail'` fails
+ */
+export const HOOK_ERROR_EVENT = 'xflows.hook.error';
+
+export type HookPhase = 'before' | 'after';
+
+export interface HookInput {
+  context: Record<string, unknown>;
+  event: Record<string, unknown>;
+}
+
+/**
+ * Error thrown by a hook whose `onError` policy is `fail`
+ */
+export class HookExecutionError extends Error {
+  constructor(
+    public hookId: string,
+    public cause: unknown
+  ) {
+    super(`Hook ${hookId} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'HookExecutionError';
+  }
+}
 
 export class HookProcessor {
   private templateParser: TemplateParser;
   private httpClient: HttpClient;
+  private jsonLogicEvaluator: JsonLogicEvaluator;
+  private patcher: ContextPatcher;
+  private tools?: ToolRunner;
 
-  constructor(templateParser: TemplateParser, httpClient: HttpClient) {
+  constructor(templateParser: TemplateParser, httpClient: HttpClient, patcher = new ContextPatcher(), tools?: ToolRunner) {
     this.templateParser = templateParser;
     this.httpClient = httpClient;
+    this.jsonLogicEvaluator = new JsonLogicEvaluator();
+    this.patcher = patcher;
+    this.tools = tools;
+  }
+
+  /**
+   * Check whether a hook must run as an actor
+   */
+  isAsync(hook: Hook): boolean {
+    if (hook.type === 'http_call' || hook.type === 'delay' || hook.type === 'tool') {
+      return true;
+    }
+
+    if (hook.type === 'condition') {
+      return [...(hook.onTrue || []), ...(hook.onFalse || [])].some(subHook => this.isAsync(subHook));
+    }
+
+    return false;
   }
 
   /**
    * Create hook action for XState
    */
-  createHookAction(hook: Hook, phase: 'before' | 'after') {
-    return async (context: Record<string, unknown>, event: Record<string, unknown>) => {
+  createHookAction(hook: Hook, phase: HookPhase) {
+    return enqueueActions(({ context, event, enqueue }) => {
       try {
-        switch (hook.type) {
-          case 'http_call':
-            if (hook.endpoint && hook.method) {
-              await this.httpClient.execute({
-                url: hook.endpoint,
-                method: hook.method,
-                body: hook.body,
-                headers: hook.headers,
-              }, { ...context, event });
-            }
-            break;
-            
-          case 'assign':
-            if (hook.target && hook.value !== undefined) {
-              // Simple assignment - in production would use XState assign
-              context[hook.target] = hook.value;
-            }
-            break;
-            
-          case 'log':
-            console.log(`[${phase}] ${hook.message || 'Hook executed'}`, { context, event });
-            break;
-            
-          case 'analytics':
-            // Analytics tracking - would integrate with analytics service
-            console.log(`[Analytics] ${hook.event}`, hook.data);
-            break;
-            
-          case 'delay':
-            if (hook.duration) {
-              await new Promise(resolve => setTimeout(resolve, hook.duration));
-            }
-            break;
-            
-          case 'condition':
-            if (hook.expression) {
-              // Evaluate condition and execute onTrue/onFalse hooks
-              const result = this.evaluateCondition(hook.expression, { ...context, event });
-              const hooksToExecute = result ? hook.onTrue : hook.onFalse;
-              
-              if (hooksToExecute) {
-                for (const subHook of hooksToExecute) {
-                  await this.createHookAction(subHook, phase)(context, event);
-                }
-              }
-            }
-            break;
+        const patches = this.execute(hook, phase, { context, event });
+        if (patches.length > 0) {
+          enqueue.assign(({ context: current, self }) => this.patcher.apply(self, `hook:${hook.id}`, current, patches));
         }
       } catch (error) {
-        if (hook.onError === 'fail') {
-          throw error;
+        try {
+          this.handleFailure(hook, error);
+        } catch (failure) {
+          const failureEvent = { type: HOOK_ERROR_EVENT, hookId: hook.id, phase, error: failure };
+          enqueue.raise(failureEvent);
         }
-        // Otherwise ignore error
-        console.warn(`Hook ${hook.id} failed:`, error);
       }
-    };
+    });
+  }
+
+  /**
+   * Create actor logic for hooks that must run asynchronously
+   */
+  createHookActor(hook: Hook, phase: HookPhase): AnyActorLogic {
+    return fromPromise(async ({ input }: { input: HookInput }) => this.executeAsync(hook, phase, input));
+  }
+
+  /**
+   * Create action that applies the patches resolved by a hook actor
+   */
+  createResultAction(hook: Hook) {
+    return assign(({ context, event, self }) => {
+      const output = (event as { output?: unknown }).output;
+      return Array.isArray(output) ? this.patcher.apply(self, `hook:${hook.id}`, context, output as ContextPatch[]) : {};
+    });
+  }
+
+  /**
+   * Create action that raises the hook error event when a hook actor fails
+   */
+  createFailureAction(hook: Hook, phase: HookPhase) {
+    return raise(({ event }) => ({
+      type: HOOK_ERROR_EVENT,
+      hookId: hook.id,
+      phase,
+      error: (event as { error?: unknown }).error
+    }));
+  }
+
+  /**
+   * Execute a synchronous hook and return the context patches it produces
+   */
+  private execute(hook: Hook, phase: HookPhase, input: HookInput): ContextPatch[] {
+    const templateData = { context: input.context, event: input.event };
+
+    switch (hook.type) {
+      case 'assign':
+        if (hook.target && hook.value !== undefined) {
+          return [{
+            op: hook.operation || 'set',
+            path: hook.target,
+            value: this.templateParser.parseValue(hook.value, templateData)
+          }];
+        }
+        return [];
+
+      case 'log': {
+        const message = this.templateParser.parse(hook.message || 'Hook executed', templateData);
+        console[hook.level || 'info'](`[${phase}] ${message}`, templateData);
+        return [];
+      }
+
+      case 'analytics':
+        // Analytics tracking - would integrate with analytics service
+        console.info(`[Analytics] ${hook.event}`, this.templateParser.parseValue(hook.data, templateData));
+        return [];
+
+      case 'condition': {
+        const patches: ContextPatch[] = [];
+        let context = input.context;
+        for (const subHook of this.selectBranch(hook, input)) {
+          const subPatches = this.runSafely(subHook, () => this.execute(subHook, phase, { context, event: input.event }));
+          context = applyPatches(context, subPatches);
+          patches.push(...subPatches);
+        }
+        return patches;
+      }
+
+      default:
+        throw new Error(`Unsupported hook type "${hook.type}"`);
+    }
+  }
+
+  /**
+   * Execute any hook, awaiting asynchronous work, and return the context patches it produces
+   */
+  private async executeAsync(hook: Hook, phase: HookPhase, input: HookInput): Promise<ContextPatch[]> {
+    try {
+      switch (hook.type) {
+        case 'http_call': {
+          if (!hook.endpoint) {
+            return [];
+          }
+          const result = await this.httpClient.execute({
+            url: hook.endpoint,
+            method: hook.method,
+            body: this.templateParser.parseValue(hook.body, { ...input }),
+            headers: hook.headers,
+          }, { ...input });
+          return hook.updateContext ? [{ op: 'set', path: hook.updateContext, value: result }] : [];
+        }
+
+        case 'tool': {
+          if (!hook.tool) {
+            throw new Error(`Tool hook ${hook.id} must have a "tool" field`);
+          }
+          if (!this.tools) {
+            throw new Error(`Tool hook ${hook.id} cannot run: no tool runner is available`);
+          }
+          const result = await this.tools.run({ ...hook, tool: hook.tool }, input);
+          return this.tools.createPatches(hook, result);
+        }
+
+        case 'delay':
+          if (hook.duration) {
+            await new Promise(resolve => setTimeout(resolve, hook.duration));
+          }
+          return [];
+
+        case 'condition': {
+          const patches: ContextPatch[] = [];
+          let context = input.context;
+          for (const subHook of this.selectBranch(hook, input)) {
+            const subPatches = await this.executeAsync(subHook, phase, { context, event: input.event });
+            context = applyPatches(context, subPatches);
+            patches.push(...subPatches);
+          }
+          return patches;
+        }
+
+        default:
+          return this.execute(hook, phase, input);
+      }
+    } catch (error) {
+      return this.handleFailure(hook, error);
+    }
+  }
+
+  /**
+   * Run a nested synchronous hook, honouring its own `onError` policy
+   */
+  private runSafely(hook: Hook, run: () => ContextPatch[]): ContextPatch[] {
+    try {
+      return run();
+    } catch (error) {
+      return this.handleFailure(hook, error);
+    }
+  }
+
+  /**
+   * Rethrow failures of `onError: 'fail'` hooks (including nested ones), ignore the rest
+   */
+  private handleFailure(hook: Hook, error: unknown): ContextPatch[] {
+    if (error instanceof HookExecutionError) {
+      throw error;
+    }
+
+    if (hook.onError === 'fail') {
+      throw new HookExecutionError(hook.id, error);
+    }
+
+    // Otherwise ignore error
+    console.warn(`Hook ${hook.id} failed:`, error);
+    return [];
+  }
+
+  /**
+   * Pick the onTrue/onFalse hooks of a condition hook
+   */
+  private selectBranch(hook: Hook, input: HookInput): Hook[] {
+    const result = this.evaluateCondition(hook.expression, input);
+    return (result ? hook.onTrue : hook.onFalse) || [];
   }
 
   /**
    * Evaluate condition expression
    */
-  private evaluateCondition(expression: unknown, data: Record<string, unknown>): boolean {
+  private evaluateCondition(expression: unknown, input: HookInput): boolean {
     if (typeof expression === 'boolean') {
       return expression;
     }
-    
+
+    const data = { ...input.context, context: input.context, event: input.event };
+
     if (typeof expression === 'string') {
       // Simple template evaluation
       const result = this.templateParser.parse(expression, data);
       return result === 'true' || result === '1';
     }
-    
+
+    if (expression && typeof expression === 'object') {
+      return this.jsonLogicEvaluator.evaluate(expression, data);
+    }
+
     return false;
   }
 }
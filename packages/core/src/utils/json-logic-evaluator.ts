@@ -1,52 +1,201 @@
 /**
  * JSON Logic Evaluator
- * Evaluates JSON Logic expressions
+ * Evaluates JSON Logic expressions with json-logic-js
+ *
+ * Supports the full JSON Logic operator set (logic, comparison, arithmetic, `in`,
+ * `missing`, `some`/`all`/`none`, `cat`/`substr`...) plus a few string operations:
+ * `starts_with`, `ends_with`, `lower`, `upper` and `match` (regular expression test).
+ * json-logic-js keeps its operations in a process-wide singleton, so the string operations
+ * are added under prefixed names while this evaluator applies an expression, and removed
+ * right after; operations the host registered under the same names are left untouched.
+ *
+ * `match` patterns come from flow JSON: they are bounded in length, must not repeat a
+ * group containing a quantifier or an alternation (`(a+)+`, `(a|aa)*`, the catastrophic
+ * backtracking shapes), and are tested against bounded input.
  */
 
+import jsonLogic from 'json-logic-js';
+
+type Operation = (...args: unknown[]) => unknown;
+
+const MAX_PATTERN_LENGTH = 256;
+const MAX_MATCH_INPUT_LENGTH = 10_000;
+// Patterns may be read from data, so the compiled pattern cache is bounded too
+const MAX_CACHED_PATTERNS = 100;
+const ALLOWED_FLAGS = /^[imsu]*$/;
+// Operations are registered under this prefix so they never replace the host's own
+const OPERATION_PREFIX = 'xflows:';
+
+/**
+ * Check whether a pattern repeats a group that contains a quantifier or an alternation,
+ * e.g. `(a+)+`, `((\w*))*`, `(a|a)*` or `(?:a|aa){2,}`
+ */
+function repeatsAmbiguousGroup(source: string): boolean {
+  // Whether each open group contains a quantifier or an alternation so far
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') {
+      index++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the `?` of `(?:`, `(?=`, `(?<name>`...
+      if (source[index + 1] === '?') {
+        index++;
+      }
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      const next = source[index + 1];
+      if (ambiguous && (next === '+' || next === '*' || next === '{')) {
+        return true;
+      }
+      if (ambiguous && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ('|+*?{'.includes(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
 export class JsonLogicEvaluator {
+  private patterns = new Map<string, RegExp>();
+  // Expressions with their operations renamed to the prefixed names
+  private scoped = new WeakMap<object, unknown>();
+  private operations: Record<string, Operation> = {
+    starts_with: (value, prefix) => String(value ?? '').startsWith(String(prefix)),
+    ends_with: (value, suffix) => String(value ?? '').endsWith(String(suffix)),
+    lower: value => String(value ?? '').toLowerCase(),
+    upper: value => String(value ?? '').toUpperCase(),
+    match: (value, pattern, flags) => {
+      const text = String(value ?? '');
+      return text.length <= MAX_MATCH_INPUT_LENGTH && this.compilePattern(pattern, flags).test(text);
+    }
+  };
+
   /**
    * Evaluate JSON Logic expression
    */
   evaluate(expression: unknown, data: Record<string, unknown>): boolean {
-    // Simple implementation - in production would use json-logic-js
     if (typeof expression === 'boolean') {
       return expression;
     }
-    
-    if (typeof expression === 'object' && expression !== null) {
-      // Handle basic operators
-      const expr = expression as Record<string, unknown>;
-      
-      if ('and' in expr) {
-        const operands = expr.and as unknown[];
-        return operands.every(op => this.evaluate(op, data));
-      }
-      
-      if ('or' in expr) {
-        const operands = expr.or as unknown[];
-        return operands.some(op => this.evaluate(op, data));
-      }
-      
-      if ('not' in expr) {
-        return !this.evaluate(expr.not, data);
+
+    return jsonLogic.truthy(this.apply(expression, data));
+  }
+
+  /**
+   * Apply JSON Logic expression and return its raw result
+   */
+  apply(expression: unknown, data: Record<string, unknown>): unknown {
+    const names = Object.keys(this.operations);
+    for (const name of names) {
+      jsonLogic.add_operation(`${OPERATION_PREFIX}${name}`, this.operations[name]);
+    }
+
+    try {
+      return jsonLogic.apply(this.scope(expression) as Parameters<typeof jsonLogic.apply>[0], data);
+    } finally {
+      for (const name of names) {
+        jsonLogic.rm_operation(`${OPERATION_PREFIX}${name}`);
       }
-      
-      if ('var' in expr) {
-        const path = expr.var as string;
-        const value = this.getNestedValue(data, path);
-        return Boolean(value);
+    }
+  }
+
+  /**
+   * Check whether a value is a JSON Logic expression
+   */
+  isLogic(expression: unknown): boolean {
+    return jsonLogic.is_logic(expression);
+  }
+
+  /**
+   * Check the literal `match` patterns of an expression; returns an error message per unsafe pattern
+   */
+  check(expression: unknown): string[] {
+    if (Array.isArray(expression)) {
+      return expression.flatMap(item => this.check(item));
+    }
+    if (!expression || typeof expression !== 'object') {
+      return [];
+    }
+
+    const errors: string[] = [];
+    for (const [operator, args] of Object.entries(expression)) {
+      const [, pattern, flags] = Array.isArray(args) ? args : [args];
+      if (operator === 'match' && typeof pattern === 'string') {
+        try {
+          this.compilePattern(pattern, typeof flags === 'string' ? flags : undefined);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
       }
+      errors.push(...this.check(args));
+    }
+    return errors;
+  }
+
+  /**
+   * Rename the operations of this evaluator in an expression to their prefixed names
+   */
+  private scope(expression: unknown): unknown {
+    if (!expression || typeof expression !== 'object') {
+      return expression;
     }
-    
-    return false;
+    const cached = this.scoped.get(expression);
+    if (cached) {
+      return cached;
+    }
+
+    let scoped: unknown;
+    if (Array.isArray(expression)) {
+      scoped = expression.map(item => this.scope(item));
+    } else if (jsonLogic.is_logic(expression)) {
+      const [operator] = Object.keys(expression);
+      const name = Object.prototype.hasOwnProperty.call(this.operations, operator) ? `${OPERATION_PREFIX}${operator}` : operator;
+      scoped = { [name]: this.scope((expression as Record<string, unknown>)[operator]) };
+    } else {
+      scoped = expression;
+    }
+    this.scoped.set(expression, scoped);
+    return scoped;
   }
 
   /**
-   * Get nested value from object using dot notation
+   * Compile a `match` pattern, refusing patterns prone to catastrophic backtracking
    */
-  private getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-    return path.split('.').reduce((current: unknown, key: string) => {
-      return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
-    }, obj);
+  private compilePattern(pattern: unknown, flags: unknown): RegExp {
+    const source = String(pattern);
+    const flagString = typeof flags === 'string' ? flags : '';
+    const key = `${flagString}/${source}`;
+
+    const cached = this.patterns.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (source.length > MAX_PATTERN_LENGTH) {
+      throw new Error(`"match" pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+    }
+    if (repeatsAmbiguousGroup(source)) {
+      throw new Error(`"match" pattern "${source}" repeats a group containing a quantifier or an alternation`);
+    }
+    if (!ALLOWED_FLAGS.test(flagString)) {
+      throw new Error(`"match" flags "${flagString}" are not supported (allowed: i, m, s, u)`);
+    }
+
+    const regex = new RegExp(source, flagString);
+    if (this.patterns.size >= MAX_CACHED_PATTERNS) {
+      this.patterns.clear();
+    }
+    this.patterns.set(key, regex);
+    return regex;
   }
 }
@@ -0,0 +1,42 @@
+/**
+ * Dot-notation path utilities
+ * Reads and immutably writes nested values such as `user.profile.name`
+ */
+
+/**
+ * Get nested value from object using dot notation
+ */
+export function getByPath(obj: unknown, path: string): unknown {
+  if (!path) {
+    return obj;
+  }
+
+  return path.split('.').reduce((current: unknown, key: string) => {
+    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+  }, obj);
+}
+
+/**
+ * Set nested value using dot notation, returning a new object.
+ * Only the objects and arrays along the path are copied; everything else is shared.
+ */
+export function setByPath<T extends Record<string, unknown>>(obj: T, path: string, value: unknown): T {
+  return setIn(obj, path.split('.'), value) as T;
+}
+
+function setIn(target: unknown, keys: string[], value: unknown): unknown {
+  if (keys.length === 0) {
+    return value;
+  }
+
+  const [key, ...rest] = keys;
+
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    copy[Number(key)] = setIn(copy[Number(key)], rest, value);
+    return copy;
+  }
+
+  const source = target && typeof target === 'object' ? (target as Record<string, unknown>) : {};
+  return { ...source, [key]: setIn(source[key], rest, value) };
+}
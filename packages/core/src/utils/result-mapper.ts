@@ -2,19 +2,46 @@
  * Result mapping utilities for HTTP responses
  */
 
+import type { ContextPatch } from '../types';
+import { applyPatches } from './context-patch';
+
 export interface MapResultConfig {
   [contextPath: string]: string; // JSONPath expression
 }
 
 export class ResultMapper {
   /**
-   * Map response data to context using JSONPath-like expressions
+   * Map response data to context patches using JSONPath-like expressions
+   */
+  mapResult(data: unknown, mapConfig: MapResultConfig): ContextPatch[];
+  /**
+   * @deprecated Writes the mapped values into `context`; apply the returned patches instead
    */
-  mapResult(data: unknown, mapConfig: MapResultConfig, context: Record<string, unknown>): void {
-    for (const [contextPath, jsonPath] of Object.entries(mapConfig)) {
-      const value = this.extractValue(data, jsonPath);
-      this.setByPath(context, contextPath, value);
+  mapResult(data: unknown, mapConfig: MapResultConfig, context: Record<string, unknown>): void;
+  mapResult(data: unknown, mapConfig: MapResultConfig, context?: Record<string, unknown>): ContextPatch[] | undefined {
+    const patches: ContextPatch[] = Object.entries(mapConfig).map(([contextPath, jsonPath]) => ({
+      op: 'set',
+      path: contextPath,
+      value: this.extractValue(data, jsonPath)
+    }));
+    if (!context) {
+      return patches;
     }
+    Object.assign(context, applyPatches(context, patches));
+    return undefined;
+  }
+
+  /**
+   * Context patches for a result: `mapResult` mappings, then the whole result at `updateContext`
+   */
+  createPatches(data: unknown, config: { updateContext?: string; mapResult?: MapResultConfig }): ContextPatch[] {
+    const patches = config.mapResult ? this.mapResult(data, config.mapResult) : [];
+
+    if (config.updateContext) {
+      patches.push({ op: 'set', path: config.updateContext, value: data });
+    }
+
+    return patches;
   }
 
   /**
@@ -55,24 +82,6 @@ export class ResultMapper {
 
     return undefined;
   }
-
-  /**
-   * Set nested property value using dot notation
-   */
-  private setByPath(obj: Record<string, unknown>, path: string, value: unknown): void {
-    const keys = path.split('.');
-    let current = obj;
-    
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i];
-      if (!(key in current) || typeof (current as Record<string, unknown>)[key] !== 'object' || (current as Record<string, unknown>)[key] === null) {
-        (current as Record<string, unknown>)[key] = {};
-      }
-      current = (current as Record<string, unknown>)[key] as Record<string, unknown>;
-    }
-    
-    (current as Record<string, unknown>)[keys[keys.length - 1]] = value;
-  }
 }
 
 export const resultMapper = new ResultMapper();
@@ -0,0 +1,92 @@
+/**
+ * Version utilities
+ * Compares `major.minor.patch` versions and matches them against ranges
+ *
+ * Supported ranges: exact versions (`1.2.0`), wildcards (`*`, `1.x`, `1.2.*`),
+ * comparators (`>=1.0.0 <2.0.0`), caret (`^1.2.0`), tilde (`~1.2.0`) and
+ * alternatives separated by `||`. Versions that are not numeric only match
+ * identical strings.
+ */
+
+type Version = [number, number, number];
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/;
+
+/**
+ * Parse a version, returning null for free-form strings
+ */
+export function parseVersion(version: string): Version | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  return match ? [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)] : null;
+}
+
+/**
+ * Compare two versions: negative when `a` is lower, 0 when equal, positive when higher
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  for (let index = 0; index < 3; index++) {
+    if (left[index] !== right[index]) {
+      return left[index] - right[index];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check whether a version satisfies a range
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean);
+    return comparators.length === 0 || comparators.every(comparator => satisfiesComparator(version, comparator));
+  });
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  if (comparator === '*' || comparator === 'x') {
+    return true;
+  }
+
+  const parsed = parseVersion(version);
+  const match = /^(>=|<=|>|<|=|\^|~)?(.+)$/.exec(comparator) as RegExpExecArray;
+  const [, operator = '=', target] = match;
+
+  // Wildcard and partial ranges: 1.x, 1.2.*, 1.2
+  const wildcard = /^(\d+)(?:\.(\d+|x|\*))?(?:\.(x|\*))?$/.exec(target);
+  if (operator === '=' && wildcard) {
+    if (!parsed) return false;
+    const major = Number(wildcard[1]);
+    const minor = wildcard[2] === undefined || wildcard[2] === 'x' || wildcard[2] === '*' ? undefined : Number(wildcard[2]);
+    return parsed[0] === major && (minor === undefined || parsed[1] === minor);
+  }
+
+  const bound = parseVersion(target);
+  if (!parsed || !bound) {
+    return operator === '=' && version === target;
+  }
+
+  const comparison = compareVersions(version, target);
+  switch (operator) {
+    case '>=':
+      return comparison >= 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '<':
+      return comparison < 0;
+    case '^':
+      // Same major (or same minor below 1.0.0), not lower than the bound
+      return comparison >= 0 && parsed[0] === bound[0] && (bound[0] > 0 || parsed[1] === bound[1]);
+    case '~':
+      return comparison >= 0 && parsed[0] === bound[0] && parsed[1] === bound[1];
+    default:
+      return comparison === 0;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Form Validator
+ * Validates submitted form data against the fields and rules of a form view
+ *
+ * Every field is checked for presence (`required`), type (numbers, emails, dates,
+ * options, files), ranges (`min`/`max`), lengths, `pattern`, and `maxSize`/`accept`
+ * for files. Cross-field `rules` and the `visibleWhen`/`requiredWhen`/`disabledWhen`
+ * conditions of fields are JSON Logic expressions evaluated against
+ * `{ ...data, data, context }`; hidden and disabled fields are not validated.
+ * Messages can be replaced per rule with `validation.messages`.
+ */
+
+import { TemplateParser } from '../parser/template-parser';
+import type {
+  FieldError,
+  FieldOption,
+  FieldOptionsSource,
+  FieldValidationRule,
+  FormErrors,
+  FormField,
+  ViewConfig
+} from '../types';
+import { JsonLogicEvaluator } from '../utils/json-logic-evaluator';
+import { getByPath } from '../utils/object-path';
+
+/**
+ * Key of errors reported by rules without a `field`
+ */
+export const FORM_ERROR_KEY = '$form';
+
+/**
+ * Context path where the errors of the last rejected submission are stored
+ */
+export const FIELD_ERRORS_PATH = 'fieldErrors';
+
+export interface FormValidationResult {
+  valid: boolean;
+  errors: FormErrors;
+}
+
+/**
+ * A field with its conditions and options resolved for the current form data
+ */
+export interface ResolvedFormField extends Omit<FormField, 'options'> {
+  visible: boolean;
+  required: boolean;
+  disabled: boolean;
+  options?: FieldOption[];
+}
+
+interface FileLike {
+  name: string;
+  size: number;
+  type?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i;
+const SIZE_UNITS: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+export class FormValidator {
+  private jsonLogicEvaluator = new JsonLogicEvaluator();
+  private templateParser: TemplateParser;
+  // Field patterns compiled on first use, null when they are not valid regular expressions
+  private patterns = new Map<string, RegExp | null>();
+
+  constructor(templateParser = new TemplateParser()) {
+    this.templateParser = templateParser;
+  }
+
+  /**
+   * Validate the data submitted from a form view
+   */
+  validate(view: Pick<ViewConfig, 'fields' | 'rules'>, data: unknown, context: Record<string, unknown> = {}): FormValidationResult {
+    const values = toValues(data);
+    const errors: FormErrors = {};
+    const report = (error: FieldError) => {
+      errors[error.field] = [...(errors[error.field] || []), error];
+    };
+
+    for (const field of this.resolveFields(view, values, context)) {
+      if (!field.visible || field.disabled) continue;
+      for (const error of this.validateField(field, getByPath(values, field.name))) {
+        report(error);
+      }
+    }
+
+    for (const rule of view.rules || []) {
+      const field = rule.field || FORM_ERROR_KEY;
+      if (errors[field]) continue;
+      if (!this.evaluate(rule.expression, values, context)) {
+        report({ field, rule: 'rule', message: rule.message });
+      }
+    }
+
+    return { valid: Object.keys(errors).length === 0, errors };
+  }
+
+  /**
+   * Resolve the conditions and options of every field of a form view for the current form data
+   */
+  resolveFields(view: Pick<ViewConfig, 'fields'>, data: unknown, context: Record<string, unknown> = {}): ResolvedFormField[] {
+    const values = toValues(data);
+
+    return (view.fields || []).map(field => {
+      const { options, visibleWhen, requiredWhen, disabledWhen, ...rest } = field;
+      return {
+        ...rest,
+        visible: visibleWhen === undefined || this.evaluate(visibleWhen, values, context),
+        required: Boolean(field.required) || (requiredWhen !== undefined && this.evaluate(requiredWhen, values, context)),
+        disabled: disabledWhen !== undefined && this.evaluate(disabledWhen, values, context),
+        ...(options !== undefined ? { options: this.resolveOptions(options, values, context) } : {})
+      };
+    });
+  }
+
+  /**
+   * Resolve static options or options read from context; items that are not objects are used as is
+   */
+  resolveOptions(
+    options: FieldOption[] | FieldOptionsSource,
+    data: Record<string, unknown>,
+    context: Record<string, unknown>
+  ): FieldOption[] {
+    if (Array.isArray(options)) {
+      return options;
+    }
+
+    const items = this.templateParser.parseValue(options.from, { context, data });
+    if (!Array.isArray(items)) {
+      return [];
+    }
+
+    return items.map(item => {
+      const value = options.value ? getByPath(item, options.value) : item;
+      const label = options.label ? getByPath(item, options.label) : value;
+      return { value: String(value), label: String(label) };
+    });
+  }
+
+  /**
+   * Validate a single field value; only the first failing check is reported
+   */
+  validateField(field: ResolvedFormField, value: unknown): FieldError[] {
+    const fail = (rule: FieldValidationRule, message: string): FieldError[] => [
+      { field: field.name, rule, message: field.validation?.messages?.[rule] || message }
+    ];
+    const label = field.label || field.name;
+
+    if (this.isEmpty(field, value)) {
+      return field.required ? fail('required', `${label} is required`) : [];
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : Number.NaN;
+        if (Number.isNaN(number)) return fail('type', `${label} must be a number`);
+        if (field.min !== undefined && number < field.min) return fail('min', `${label} must be at least ${field.min}`);
+        if (field.max !== undefined && number > field.max) return fail('max', `${label} must be at most ${field.max}`);
+        return [];
+      }
+
+      case 'date':
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+          return fail('type', `${label} must be a valid date`);
+        }
+        return this.validateText(field, value, label, fail);
+
+      case 'select':
+      case 'radio':
+      case 'checkbox': {
+        if (!field.options) {
+          return field.type === 'checkbox' && typeof value !== 'boolean' ? fail('type', `${label} must be checked or unchecked`) : [];
+        }
+        const allowed = field.options.map(option => option.value);
+        const selected = Array.isArray(value) ? value : [value];
+        return selected.every(item => allowed.includes(String(item)))
+          ? []
+          : fail('options', `${label} must be one of the available options`);
+      }
+
+      case 'file':
+        return this.validateFiles(field, value, label, fail);
+
+      default:
+        if (typeof value !== 'string') return fail('type', `${label} must be text`);
+        if (field.type === 'email' && !EMAIL_PATTERN.test(value)) {
+          return fail('type', `${label} must be a valid email address`);
+        }
+        return this.validateText(field, value, label, fail);
+    }
+  }
+
+  /**
+   * Evaluate a rule or field condition; expressions that cannot be evaluated are false
+   */
+  private evaluate(expression: unknown, data: Record<string, unknown>, context: Record<string, unknown>): boolean {
+    try {
+      return this.jsonLogicEvaluator.evaluate(expression, { ...data, data, context });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compile a field `pattern` once; invalid patterns give null
+   */
+  compilePattern(pattern: string): RegExp | null {
+    let regex = this.patterns.get(pattern);
+    if (regex === undefined) {
+      try {
+        regex = new RegExp(pattern);
+      } catch {
+        regex = null;
+      }
+      this.patterns.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  private validateText(
+    field: ResolvedFormField,
+    value: string,
+    label: string,
+    fail: (rule: FieldValidationRule, message: string) => FieldError[]
+  ): FieldError[] {
+    const { minLength, pattern } = field.validation || {};
+    const maxLength = field.validation?.maxLength ?? field.maxLength;
+
+    if (minLength !== undefined && value.length < minLength) {
+      return fail('minLength', `${label} must be at least ${minLength} characters`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      return fail('maxLength', `${label} must be at most ${maxLength} characters`);
+    }
+    // A pattern that does not compile matches nothing
+    if (pattern !== undefined && !this.compilePattern(pattern)?.test(value)) {
+      return fail('pattern', `${label} has an invalid format`);
+    }
+    return [];
+  }
+
+  private validateFiles(
+    field: ResolvedFormField,
+    value: unknown,
+    label: string,
+    fail: (rule: FieldValidationRule, message: string) => FieldError[]
+  ): FieldError[] {
+    const files = Array.isArray(value) ? value : [value];
+    if (!files.every(isFileLike)) {
+      return fail('type', `${label} must be a file`);
+    }
+
+    const maxSize = field.maxSize !== undefined ? parseSize(field.maxSize) : null;
+    if (maxSize !== null && files.some(file => file.size > maxSize)) {
+      return fail('maxSize', `${label} must be at most ${field.maxSize}`);
+    }
+    if (field.accept && !files.every(file => acceptsFile(field.accept as string, file))) {
+      return fail('accept', `${label} must be a file of type ${field.accept}`);
+    }
+    return [];
+  }
+
+  /**
+   * Whether a value counts as not filled in; an unchecked checkbox is empty
+   */
+  private isEmpty(field: ResolvedFormField, value: unknown): boolean {
+    return (
+      value === undefined ||
+      value === null ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0) ||
+      (field.type === 'checkbox' && value === false)
+    );
+  }
+}
+
+/**
+ * Parse a size such as `5MB`, `500 KB` or `1024` (bytes); null when it cannot be parsed
+ */
+export function parseSize(size: string): number | null {
+  const match = SIZE_PATTERN.exec(size.trim());
+  return match ? Number(match[1]) * SIZE_UNITS[(match[2] || 'B').toUpperCase()] : null;
+}
+
+function toValues(data: unknown): Record<string, unknown> {
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+}
+
+function isFileLike(value: unknown): value is FileLike {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    typeof (value as FileLike).name === 'string' &&
+    typeof (value as FileLike).size === 'number'
+  );
+}
+
+/**
+ * Match a file against an `accept` list of extensions (`.pdf`) and MIME types (`image/*`)
+ */
+function acceptsFile(accept: string, file: FileLike): boolean {
+  const name = file.name.toLowerCase();
+  const type = (file.type || '').toLowerCase();
+
+  return accept
+    .split(',')
+    .map(token => token.trim().toLowerCase())
+    .filter(Boolean)
+    .some(token => {
+      if (token.startsWith('.')) return name.endsWith(token);
+      if (token.endsWith('/*')) return type.startsWith(token.slice(0, -1));
+      return type === token;
+    });
+}
+
+export const formValidator = new FormValidator();
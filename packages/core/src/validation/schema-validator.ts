@@ -38,10 +38,13 @@ export class SchemaValidator {
         description: { type: 'string' },
         initialStep: { type: 'string', minLength: 1 },
         context: { type: 'object' },
+        contextSchema: { type: 'object' },
         actions: { type: 'object' },
         guards: { type: 'object' },
         actors: { type: 'object' },
         plugins: { type: 'object' },
+        output: { type: 'object' },
+        migrations: { type: 'array', items: { type: 'object', required: ['from'] } },
         steps: {
           type: 'array',
           minItems: 1,
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { HttpActionPlugin } from '../src/http-action-plugin';
+import { HttpActionPlugin } from '../http-action-plugin';
 import { cache } from '@xflows/core';
 
 // Mock response type
@@ -52,12 +52,12 @@ describe('HttpActionPlugin Advanced Features', () => {
       // First call - should make HTTP request
       const result1 = await plugin.execute(config, context, event);
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(result1).toEqual({ data: 'test' });
+      expect(result1.data).toEqual({ data: 'test' });
 
       // Second call - should use cache
       const result2 = await plugin.execute(config, context, event);
       expect(mockFetch).toHaveBeenCalledTimes(1); // Still 1, not 2
-      expect(result2).toEqual({ data: 'test' });
+      expect(result2.data).toEqual({ data: 'test' });
     });
 
     it('should use custom cache key when provided', async () => {
@@ -106,7 +106,7 @@ describe('HttpActionPlugin Advanced Features', () => {
       const event = {};
 
       const result = await plugin.execute(config, context, event);
-      expect(result).toEqual({ data: 'test' });
+      expect(result.data).toEqual({ data: 'test' });
     });
 
     it('should throw error when status code validation fails', async () => {
@@ -129,7 +129,7 @@ describe('HttpActionPlugin Advanced Features', () => {
       const context = {};
       const event = {};
 
-      await expect(plugin.execute(config, context, event)).rejects.toThrow('HTTP 404: Not Found');
+      await expect(plugin.execute(config, context, event)).rejects.toThrow('Response validation failed: Expected status 200, got 404');
     });
 
     it('should validate response schema', async () => {
@@ -156,7 +156,7 @@ describe('HttpActionPlugin Advanced Features', () => {
       const event = {};
 
       const result = await plugin.execute(config, context, event);
-      expect(result).toEqual({ 
+      expect(result.data).toEqual({ 
         status: 'verified',
         code: 'ABC123'
       });
@@ -187,14 +187,13 @@ describe('HttpActionPlugin Advanced Features', () => {
       const context: Record<string, unknown> = {};
       const event = {};
 
-      await plugin.execute(config, context, event);
+      const result = await plugin.execute(config, context, event);
       
-      expect(context).toEqual({
-        session: {
-          verificationStatus: 'verified',
-          verificationCode: 'ABC123'
-        }
-      });
+      expect(result.patches).toEqual([
+        { op: 'set', path: 'session.verificationStatus', value: 'verified' },
+        { op: 'set', path: 'session.verificationCode', value: 'ABC123' }
+      ]);
+      expect(context).toEqual({});
     });
   });
 
@@ -226,7 +225,7 @@ describe('HttpActionPlugin Advanced Features', () => {
       const event = {};
 
       const result = await plugin.execute(config, context, event);
-      expect(result).toEqual({ data: 'success' });
+      expect(result.data).toEqual({ data: 'success' });
       expect(mockFetch).toHaveBeenCalledTimes(3);
     });
 
@@ -294,21 +293,18 @@ describe('HttpActionPlugin Advanced Features', () => {
 
       const result = await plugin.execute(config, context, event);
       
-      expect(result).toEqual({ 
+      expect(result.data).toEqual({ 
         status: 'verified',
         code: 'ABC123',
         userId: 123
       });
 
-      expect(context).toEqual({
-        session: {
-          verificationStatus: 'verified',
-          verificationCode: 'ABC123'
-        },
-        user: {
-          id: 123
-        }
-      });
+      expect(result.patches).toEqual([
+        { op: 'set', path: 'session.verificationStatus', value: 'verified' },
+        { op: 'set', path: 'session.verificationCode', value: 'ABC123' },
+        { op: 'set', path: 'user.id', value: 123 }
+      ]);
+      expect(context).toEqual({});
 
       // Verify caching
       expect(cache.get('verify-user-123')).toEqual({ 
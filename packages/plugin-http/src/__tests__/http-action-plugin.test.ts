@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { HttpActionPlugin } from '../src/http-action-plugin';
+import { HttpActionPlugin } from '../http-action-plugin';
 import { TemplateParser } from '@xflows/core';
 
 // Mock fetch
@@ -65,15 +65,19 @@ describe('HttpActionPlugin', () => {
         },
         body: JSON.stringify({ test: 'data' })
       });
-      expect(result).toEqual(mockResponse);
-      expect(context.responseData).toEqual(mockResponse);
+      expect(result).toEqual({
+        data: mockResponse,
+        patches: [{ op: 'set', path: 'responseData', value: mockResponse }]
+      });
+      expect(context).toEqual({ existing: 'data' });
     });
 
     it('should handle HTTP errors with fail strategy', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: false,
         status: 404,
-        statusText: 'Not Found'
+        statusText: 'Not Found',
+        json: () => Promise.resolve({})
       });
 
       const config = {
@@ -104,7 +108,7 @@ describe('HttpActionPlugin', () => {
 
       const result = await plugin.execute(config, context, event);
 
-      expect(result).toBeNull();
+      expect(result).toEqual({ data: null, patches: [] });
     });
 
     it('should use default method when not specified', async () => {
@@ -281,8 +285,8 @@ describe('HttpActionPlugin', () => {
 
       const result = await plugin.execute(config, context, event);
 
-      expect(result).toEqual(mockResponse);
-      expect(context.createdUser).toEqual(mockResponse);
+      expect(result.data).toEqual(mockResponse);
+      expect(result.patches).toEqual([{ op: 'set', path: 'createdUser', value: mockResponse }]);
       expect(global.fetch).toHaveBeenCalledWith('/api/users', {
         method: 'POST',
         headers: {
@@ -313,14 +317,17 @@ describe('HttpActionPlugin', () => {
 
       const result = await plugin.execute(config, context, event);
 
-      expect(result).toBeNull();
-      expect(context.errorData).toBeUndefined();
-      expect(context.existing).toBe('data');
+      expect(result).toEqual({ data: null, patches: [] });
+      expect(context).toEqual({ existing: 'data' });
     });
 
     it('should handle different HTTP methods', async () => {
       const mockResponse = { success: true };
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(mockResponse)
+      });
 
       const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
 
@@ -340,7 +347,8 @@ describe('HttpActionPlugin', () => {
           headers: {
             'Content-Type': 'application/json'
           },
-          body: method !== 'GET' ? JSON.stringify({ test: 'data' }) : JSON.stringify(undefined)
+          // Requests without a body send none
+          ...(method !== 'GET' ? { body: JSON.stringify({ test: 'data' }) } : {})
         });
       }
     });
@@ -1,10 +1,13 @@
 /**
  * HTTP Action Plugin
  * Provides HTTP-based actions for XState machines with advanced features
+ *
+ * The context passed to `execute` is never modified: `mapResult` and `updateContext`
+ * are returned as context patches for the orchestrator to apply.
  */
 
 import { TemplateParser } from '@xflows/core';
-import type { TemplateData } from '@xflows/core';
+import type { ContextPatchResult, TemplateData } from '@xflows/core';
 import { cache, responseValidator, resultMapper, retryManager, type ExpectConfig, type MapResultConfig, type RetryConfig } from '@xflows/core';
 import { ActionPluginImpl } from '@xflows/plugins';
 import type { ActionPluginConfig } from '@xflows/plugins';
@@ -58,7 +61,7 @@ export class HttpActionPlugin extends ActionPluginImpl {
     config: HttpActionConfig,
     context: Record<string, unknown>,
     event: Record<string, unknown>
-  ): Promise<unknown> {
+  ): Promise<ContextPatchResult> {
     const templateData: TemplateData = { context, event, step: {} };
     
     // Check cache first
@@ -69,7 +72,7 @@ export class HttpActionPlugin extends ActionPluginImpl {
       const cacheKey = cache.generateKey(config, context, resolvedCacheKey);
       const cachedResult = cache.get(cacheKey);
       if (cachedResult !== null) {
-        return cachedResult;
+        return { data: cachedResult, patches: resultMapper.createPatches(cachedResult, config) };
       }
     }
 
@@ -133,22 +136,12 @@ export class HttpActionPlugin extends ActionPluginImpl {
         cache.set(cacheKey, data, config.cacheTtlMs);
       }
 
-      // Map result to context
-      if (config.mapResult) {
-        resultMapper.mapResult(data, config.mapResult, context);
-      }
-
-      // Legacy updateContext support
-      if (config.updateContext) {
-        context[config.updateContext] = data;
-      }
-
-      return data;
+      return { data, patches: resultMapper.createPatches(data, config) };
     } catch (error) {
       console.error('HTTP action failed:', error);
       
       if (config.onError === 'ignore') {
-        return null;
+        return { data: null, patches: [] };
       }
       
       // Default behavior and 'fail' - throw the error
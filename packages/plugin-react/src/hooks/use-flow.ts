@@ -3,49 +3,224 @@
  * React hook for consuming XFlows flow orchestrator
  */
 
-import { useRef } from 'react';
-import { useActor } from '@xstate/react';
-import { FlowOrchestrator } from '@xflows/core';
-import type { FlowConfig } from '@xflows/core';
-import type { SnapshotFrom } from 'xstate';
+import { useEffect, useRef, useState } from 'react';
+import { useSelector } from '@xstate/react';
+import { FlowHistory, FlowOrchestrator, FlowPersistence, HISTORY_JUMP_EVENT, getByPath } from '@xflows/core';
+import type { FlowConfig, FlowError, FlowStore, SnapshotIncompatibility, Step } from '@xflows/core';
+import { createActor, type Actor, type SnapshotFrom, type StateValue } from 'xstate';
 
 export interface UseFlowResult {
   state: SnapshotFrom<ReturnType<typeof FlowOrchestrator.prototype.orchestrate>>;
+  // View of the active step, or the views of every active region inside a parallel step
   view: unknown;
+  activeSteps: string[];
   context: Record<string, unknown>;
-  send: (event: string, data?: unknown) => void;
+  // Pass `region` to drive a single parallel region
+  send: (event: string, data?: unknown, region?: string) => void;
   isLoading: boolean;
-  error: Error | null;
+  // True while the stored snapshot is being loaded
+  isRestoring: boolean;
+  // Failure to restore the stored snapshot, else the error stored by the flow (`errorHandling.contextPath`)
+  error: Error | FlowError | null;
+  // Visited steps, oldest first, and the position of the current step among them
+  history: {
+    steps: string[];
+    index: number;
+    canGoBack: boolean;
+    canGoForward: boolean;
+  };
+  // Previous visited step, keeping the data entered since
+  back: () => void;
+  // Previous visited step with the data it had, and forward again
+  undo: () => void;
+  redo: () => void;
+  // Go back to an already-visited step; false when the step was not visited
+  jumpTo: (stepId: string) => boolean;
 }
 
 export interface UseFlowOptions {
+  // Orchestrator with the plugin manager, actors, guards, sub-flows and tools the flow uses
+  // (default: a new orchestrator without any)
+  orchestrator?: FlowOrchestrator;
+  // Ignored when an orchestrator is given
   enableLogging?: boolean;
+  // Called once with the flow output when the flow reaches a top-level final step
+  onComplete?: (output: unknown) => void;
+  // Resume the flow from this store on mount and save every change to it
+  store?: FlowStore;
+  // Store key, e.g. per user (default: the flow id)
+  persistenceKey?: string;
+  // Called when the stored snapshot cannot be resumed; the flow starts over
+  onIncompatibleSnapshot?: (incompatibility: SnapshotIncompatibility) => void;
 }
 
+type FlowMachine = ReturnType<FlowOrchestrator['orchestrate']>;
+
 export function useFlow(flowConfig: FlowConfig, options?: UseFlowOptions): UseFlowResult {
-  // Use useRef to ensure orchestrator is only created once
-  const orchestratorRef = useRef<FlowOrchestrator | null>(null);
-  const machineRef = useRef<ReturnType<typeof FlowOrchestrator.prototype.orchestrate> | null>(null);
-  
-  // Only create orchestrator and machine once
-  if (!orchestratorRef.current || !machineRef.current) {
-    orchestratorRef.current = new FlowOrchestrator(options?.enableLogging);
-    machineRef.current = orchestratorRef.current.orchestrate(flowConfig);
+  // Orchestrator and machine of the flow, created again only when the flow id or the given orchestrator changes
+  const flowRef = useRef<{
+    id: string;
+    givenOrchestrator?: FlowOrchestrator;
+    orchestrator: FlowOrchestrator;
+    machine: FlowMachine;
+    history: FlowHistory;
+    initialActor: Actor<FlowMachine>;
+  } | null>(null);
+  if (flowRef.current?.id !== flowConfig.id || flowRef.current.givenOrchestrator !== options?.orchestrator) {
+    const orchestrator = options?.orchestrator || new FlowOrchestrator(options?.enableLogging);
+    const machine = orchestrator.orchestrate(flowConfig);
+    // Never started: it only provides the initial snapshot until the effect starts the flow
+    flowRef.current = {
+      id: flowConfig.id,
+      givenOrchestrator: options?.orchestrator,
+      orchestrator,
+      machine,
+      history: new FlowHistory(flowConfig),
+      initialActor: createActor(machine)
+    };
   }
+  const { orchestrator, machine, history: flowHistory, initialActor } = flowRef.current;
+
+  // Latest flow config, read by the effect without restarting the flow on every new object
+  const flowConfigRef = useRef(flowConfig);
+  flowConfigRef.current = flowConfig;
+
+  // The store is read on mount only
+  const storeRef = useRef(options?.store);
+  const persistenceKey = options?.persistenceKey || flowConfig.id;
+
+  const [startedActor, setStartedActor] = useState<Actor<FlowMachine> | null>(null);
+  const [isRestoring, setIsRestoring] = useState(storeRef.current !== undefined);
+  const [restoreError, setRestoreError] = useState<Error | null>(null);
+  // The started actor until the flow changes, then the new flow's initial state
+  const actor = startedActor?.logic === machine ? startedActor : initialActor;
+
+  const onIncompatibleSnapshotRef = useRef(options?.onIncompatibleSnapshot);
+  onIncompatibleSnapshotRef.current = options?.onIncompatibleSnapshot;
+
+  // Each run creates (or restores) its own actor and stops it on cleanup: an actor is never restarted
+  useEffect(() => {
+    const persistence = storeRef.current ? new FlowPersistence(orchestrator, storeRef.current) : null;
+    let cancelled = false;
+    let running: Actor<FlowMachine> | null = null;
+    let subscription: { unsubscribe: () => void } | undefined;
+
+    const start = (next: Actor<FlowMachine>) => {
+      subscription = persistence?.persist(next, flowConfigRef.current, persistenceKey);
+      next.start();
+      running = next;
+      setStartedActor(next);
+      setIsRestoring(false);
+    };
+
+    setRestoreError(null);
+    if (!persistence) {
+      start(createActor(machine));
+    } else {
+      setIsRestoring(true);
+      persistence
+        .restore(flowConfigRef.current, { key: persistenceKey, machine })
+        .then(result => {
+          if (cancelled) return;
+          if (result.incompatibility) {
+            onIncompatibleSnapshotRef.current?.(result.incompatibility);
+          }
+          start(result.actor);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          // The flow starts over; the failure is reported through `error`
+          setRestoreError(error instanceof Error ? error : new Error(String(error)));
+          start(createActor(machine));
+        });
+    }
+
+    return () => {
+      cancelled = true;
+      subscription?.unsubscribe();
+      running?.stop();
+    };
+  }, [orchestrator, machine, persistenceKey]);
+
+  const state = useSelector(actor, snapshot => snapshot);
+  const send = actor.send;
+
+  // Keep the latest callback without re-running the completion effect
+  const onCompleteRef = useRef(options?.onComplete);
+  onCompleteRef.current = options?.onComplete;
+
+  useEffect(() => {
+    if (state.status === 'done') {
+      onCompleteRef.current?.(state.output);
+    }
+  }, [state.status, state.output]);
   
-  const [state, send] = useActor(machineRef.current);
-  
-  // Get the current step configuration from the flow
-  const currentStepId = state.value as string;
-  const currentStepConfig = flowConfig.steps.find(step => step.id === currentStepId);
-  const viewConfig = currentStepConfig?.view || null;
-  
+  // Get the active step configurations from the flow (several when regions run in parallel)
+  const activeSteps = getActiveStepIds(state.value);
+  const views = activeSteps
+    .map(stepId => findStep(flowConfig.steps, stepId)?.view)
+    .filter(view => view !== undefined);
+  const viewConfig = views.length > 1 ? views : views[0] || null;
+
+  const flowError = getByPath(state.context, flowConfig.errorHandling?.contextPath || 'error') as FlowError | undefined;
+
+  const { entries, index } = flowHistory.read(state.context);
+  const visitedSteps = entries.map(entry => entry.stepId);
+
   return {
     state,
     view: viewConfig,
+    activeSteps,
     context: state.context,
-    send: (event: string, data?: unknown) => send({ type: event, data }),
-    isLoading: state.context.ui?.isLoading || false,
-    error: state.context.errors?.[0] || null
+    send: (event: string, data?: unknown, region?: string) =>
+      send(region === undefined ? { type: event, data } : { type: event, data, region }),
+    isLoading: isRestoring || state.context.ui?.isLoading || false,
+    isRestoring,
+    error: restoreError || flowError || null,
+    history: {
+      steps: visitedSteps,
+      index,
+      canGoBack: index > 0,
+      canGoForward: index + 1 < visitedSteps.length
+    },
+    back: () => send({ type: 'BACK' }),
+    undo: () => send({ type: 'UNDO' }),
+    redo: () => send({ type: 'REDO' }),
+    jumpTo: (stepId: string) => {
+      if (!visitedSteps.includes(stepId)) {
+        return false;
+      }
+      send({ type: HISTORY_JUMP_EVENT, stepId });
+      return true;
+    }
   };
 }
+
+/**
+ * Collect the ids of the innermost active states (the steps being displayed)
+ */
+function getActiveStepIds(value: StateValue): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+
+  return Object.entries(value).flatMap(([stepId, child]) =>
+    child === undefined ? [stepId] : getActiveStepIds(child as StateValue)
+  );
+}
+
+/**
+ * Find a step by id in step groups and parallel regions
+ */
+function findStep(steps: Step[], stepId: string): Step | undefined {
+  for (const step of steps) {
+    if (step.id === stepId) {
+      return step;
+    }
+    const nested = findStep([...(step.steps || []), ...(step.regions || [])], stepId);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
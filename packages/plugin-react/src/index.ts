@@ -10,3 +10,7 @@ export * from './components/flow-component';
 
 // Renderers
 export * from './renderers/view-renderer';
+export * from './renderers/component-registry';
+export * from './renderers/module-loader';
+export * from './renderers/react-renderer';
+export * from './renderers/view-registry';
@@ -0,0 +1,46 @@
+/**
+ * Component Registry Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComponentRegistry, bindViewProps } from './component-registry';
+
+describe('ComponentRegistry', () => {
+  const SignaturePad = () => null;
+  const AddressMap = () => null;
+
+  it('should resolve components by name, then by component path', () => {
+    const registry = new ComponentRegistry()
+      .register('SignaturePad', SignaturePad)
+      .register('./widgets/AddressMap', AddressMap);
+
+    expect(registry.resolve({ type: 'custom-component', componentName: 'SignaturePad' })).toBe(SignaturePad);
+    expect(registry.resolve({ type: 'custom-component', componentPath: './widgets/AddressMap' })).toBe(AddressMap);
+    expect(registry.resolve({ type: 'custom-component', componentName: 'Missing' })).toBeUndefined();
+    expect(registry.resolve({ type: 'custom-component' })).toBeUndefined();
+    expect(registry.has('SignaturePad')).toBe(true);
+  });
+
+  it('should let a later registration override a component', () => {
+    const registry = new ComponentRegistry().register('SignaturePad', SignaturePad).register('SignaturePad', AddressMap);
+
+    expect(registry.resolve({ type: 'custom-component', componentName: 'SignaturePad' })).toBe(AddressMap);
+  });
+});
+
+describe('bindViewProps', () => {
+  it('should resolve prop templates and turn event props into callbacks', () => {
+    const send = vi.fn();
+    const view = {
+      type: 'custom-component' as const,
+      props: { title: 'Hello {{context.user.name}}', onSigned: 'SIGNED', onCancel: 42, color: 'blue' }
+    };
+    const context = { user: { name: 'Jane' } };
+
+    const props = bindViewProps(view, context, send);
+    expect(props).toMatchObject({ title: 'Hello Jane', onCancel: 42, color: 'blue', view, context, send });
+
+    (props.onSigned as (data?: unknown) => void)({ at: 1 });
+    expect(send).toHaveBeenCalledWith('SIGNED', { at: 1 });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Component Registry
+ * React components that `custom-component` views render by name
+ *
+ * A view is matched by its `componentName`, or by its `componentPath` when it has no name.
+ */
+
+import type { ComponentType } from 'react';
+import { TemplateParser, type ViewConfig } from '@xflows/core';
+
+export interface CustomComponentProps {
+  view: ViewConfig;
+  context: Record<string, unknown>;
+  // Send an event to the flow
+  send: (type: string, data?: unknown) => void;
+  [prop: string]: unknown;
+}
+
+export class ComponentRegistry {
+  private components = new Map<string, ComponentType<CustomComponentProps>>();
+
+  /**
+   * Register a component under a name (or component path)
+   */
+  register(name: string, component: ComponentType<CustomComponentProps>): this {
+    this.components.set(name, component);
+    return this;
+  }
+
+  /**
+   * Component rendering a view, if one is registered for it
+   */
+  resolve(view: ViewConfig): ComponentType<CustomComponentProps> | undefined {
+    const name = view.componentName || view.componentPath;
+    return name ? this.components.get(name) : undefined;
+  }
+
+  has(name: string): boolean {
+    return this.components.has(name);
+  }
+}
+
+// Registry used when a renderer is not given one
+export const componentRegistry = new ComponentRegistry();
+
+const templateParser = new TemplateParser();
+
+/**
+ * Props for a custom or remote component: `view.props` with templates resolved against
+ * `{ context }`, where `on*` props naming an event become callbacks sending that event
+ */
+export function bindViewProps(
+  view: ViewConfig,
+  context: Record<string, unknown>,
+  send: (type: string, data?: unknown) => void
+): CustomComponentProps {
+  const props = templateParser.parseValue(view.props || {}, { context }) as Record<string, unknown>;
+  const bound = Object.fromEntries(
+    Object.entries(props).map(([key, value]) =>
+      /^on[A-Z]/.test(key) && typeof value === 'string' ? [key, (data?: unknown) => send(value, data)] : [key, value]
+    )
+  );
+
+  return { ...bound, view, context, send };
+}
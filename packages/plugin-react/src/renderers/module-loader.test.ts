@@ -0,0 +1,66 @@
+/**
+ * Remote Module Loader Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { ViewConfig } from '@xflows/core';
+import { loadRemoteModule, useRemoteComponent, type RemoteComponent } from './module-loader';
+
+describe('loadRemoteModule', () => {
+  it('should reject views without a module URL', async () => {
+    await expect(loadRemoteModule({ type: 'federated-module', moduleId: 'quotes' })).rejects.toThrow(
+      'Federated module "quotes" has no "moduleUrl"'
+    );
+  });
+
+  it('should read the component from the container a remote entry registers', async () => {
+    const Quote: RemoteComponent = () => null;
+    const container = { init: vi.fn(), get: vi.fn(async () => () => ({ Quote })) };
+    vi.spyOn(document.head, 'appendChild').mockImplementationOnce(node => {
+      (globalThis as Record<string, unknown>).quotes = container;
+      (node as HTMLScriptElement).onload?.(new Event('load'));
+      return node;
+    });
+
+    const component = await loadRemoteModule({
+      type: 'federated-module',
+      moduleId: 'quotes',
+      moduleUrl: 'https://cdn.example.com/remoteEntry.js',
+      componentName: 'Quote'
+    });
+
+    expect(component).toBe(Quote);
+    expect(container.get).toHaveBeenCalledWith('./Quote');
+    (globalThis as Record<string, unknown>).quotes = undefined;
+  });
+
+  it('should reject when the remote entry fails to load', async () => {
+    vi.spyOn(document.head, 'appendChild').mockImplementationOnce(node => {
+      (node as HTMLScriptElement).onerror?.(new Event('error'));
+      return node;
+    });
+
+    await expect(
+      loadRemoteModule({ type: 'federated-module', moduleId: 'offline', moduleUrl: 'https://cdn.example.com/offline.js' })
+    ).rejects.toThrow('Failed to load remote entry "https://cdn.example.com/offline.js"');
+  });
+});
+
+describe('useRemoteComponent', () => {
+  it('should cache loaded components and retry failed loads', async () => {
+    const Quote: RemoteComponent = () => null;
+    const view: ViewConfig = { type: 'federated-module', moduleUrl: 'https://cdn.example.com/flaky.js' };
+    const loader = vi.fn().mockRejectedValueOnce(new Error('CDN unavailable')).mockResolvedValue(Quote);
+
+    const first = renderHook(() => useRemoteComponent(view, loader));
+    await waitFor(() => expect(first.result.current.error?.message).toBe('CDN unavailable'));
+    first.unmount();
+
+    const second = renderHook(() => useRemoteComponent(view, loader));
+    await waitFor(() => expect(second.result.current.component).toBe(Quote));
+    const third = renderHook(() => useRemoteComponent(view, loader));
+    await waitFor(() => expect(third.result.current.component).toBe(Quote));
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Remote Module Loader
+ * Loads the components of `federated-module` views at runtime
+ *
+ * With a `moduleId` and a `moduleUrl`, the URL is a Module Federation remote entry: it is
+ * loaded once as a script and the component is read from the `moduleId` container
+ * (exposed as `./<componentName>`). With only a `moduleUrl`, the URL is imported as an
+ * ES module. Loaded components are cached by URL and component name.
+ */
+
+import { useEffect, useState, type ComponentType } from 'react';
+import type { ViewConfig } from '@xflows/core';
+import type { CustomComponentProps } from './component-registry';
+
+export type RemoteComponent = ComponentType<CustomComponentProps>;
+
+export type ModuleLoader = (view: ViewConfig) => Promise<RemoteComponent>;
+
+interface FederatedContainer {
+  init?: (shareScope: unknown) => Promise<void> | void;
+  get: (module: string) => Promise<() => Record<string, unknown>>;
+}
+
+const components = new Map<string, Promise<RemoteComponent>>();
+const scripts = new Map<string, Promise<void>>();
+
+/**
+ * Default loader for federated modules
+ */
+export const loadRemoteModule: ModuleLoader = async (view: ViewConfig) => {
+  if (!view.moduleUrl) {
+    throw new Error(`Federated module "${view.moduleId || view.componentName}" has no "moduleUrl"`);
+  }
+
+  const exportName = view.componentName || 'default';
+  const module = view.moduleId
+    ? await loadFederatedModule(view.moduleUrl, view.moduleId, exportName)
+    : ((await import(/* @vite-ignore */ /* webpackIgnore: true */ view.moduleUrl)) as Record<string, unknown>);
+
+  const component = module[exportName] ?? module.default;
+  if (!component) {
+    throw new Error(`Module "${view.moduleId || view.moduleUrl}" does not export "${exportName}"`);
+  }
+  return component as RemoteComponent;
+};
+
+/**
+ * Load the component of a view, rendering `null` while it loads
+ */
+export function useRemoteComponent(
+  view: ViewConfig,
+  loader: ModuleLoader = loadRemoteModule
+): { component: RemoteComponent | null; error: Error | null } {
+  const [result, setResult] = useState<{ component: RemoteComponent | null; error: Error | null }>({
+    component: null,
+    error: null
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const key = `${view.moduleUrl}#${view.moduleId || ''}#${view.componentName || 'default'}`;
+    if (!components.has(key)) {
+      // Failed loads are not cached so that the next render can try again
+      components.set(key, loader(view).catch(error => {
+        components.delete(key);
+        throw error;
+      }));
+    }
+
+    setResult({ component: null, error: null });
+    (components.get(key) as Promise<RemoteComponent>)
+      .then(component => {
+        if (!cancelled) setResult({ component, error: null });
+      })
+      .catch(error => {
+        if (!cancelled) setResult({ component: null, error: error instanceof Error ? error : new Error(String(error)) });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [view, loader]);
+
+  return result;
+}
+
+async function loadFederatedModule(url: string, scope: string, exportName: string): Promise<Record<string, unknown>> {
+  await loadScript(url);
+
+  const container = (globalThis as unknown as Record<string, FederatedContainer | undefined>)[scope];
+  if (!container) {
+    throw new Error(`Remote entry "${url}" did not register the "${scope}" container`);
+  }
+
+  const shareScopes = (globalThis as { __webpack_share_scopes__?: Record<string, unknown> }).__webpack_share_scopes__;
+  try {
+    await container.init?.(shareScopes?.default ?? {});
+  } catch {
+    // Already initialized
+  }
+
+  const factory = await container.get(`./${exportName}`);
+  return factory();
+}
+
+function loadScript(url: string): Promise<void> {
+  if (!scripts.has(url)) {
+    scripts.set(
+      url,
+      new Promise<void>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = url;
+        script.async = true;
+        script.onload = () => resolve();
+        script.onerror = () => {
+          scripts.delete(url);
+          reject(new Error(`Failed to load remote entry "${url}"`));
+        };
+        document.head.appendChild(script);
+      })
+    );
+  }
+  return scripts.get(url) as Promise<void>;
+}
@@ -0,0 +1,44 @@
+/**
+ * React Renderer
+ * React implementation of the `@xflows/renderer-core` host contracts
+ *
+ * Views are mounted in their own React root, in the element whose id is the slot
+ * (default: `app`), for hosts that render outside a React tree.
+ */
+
+import type { ComponentType } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { HostRenderer, ViewFactory, ViewProps, ViewRegistry } from '@xflows/renderer-core';
+
+const DEFAULT_SLOT = 'app';
+
+/**
+ * Wrap a React component as a view factory
+ */
+export function asReactView<P extends ViewProps>(Component: ComponentType<P>): ViewFactory {
+  return (slot, props) => {
+    const element = document.getElementById(slot || DEFAULT_SLOT);
+    if (!element) {
+      throw new Error(`Slot element not found: #${slot || DEFAULT_SLOT}`);
+    }
+
+    const root = createRoot(element);
+    root.render(<Component {...(props as P)} />);
+    return { unmount: () => root.unmount() };
+  };
+}
+
+/**
+ * Create a host renderer mounting the views of a registry
+ */
+export function createReactRenderer(registry: ViewRegistry): HostRenderer {
+  return {
+    mount(moduleId, slot, props) {
+      const factory = registry.resolve(moduleId);
+      if (!factory) {
+        throw new Error(`Unknown moduleId: ${moduleId}`);
+      }
+      return factory(slot, props);
+    }
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * View Registry Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import type { ViewConfig } from '@xflows/core';
+import { createReactRenderer } from './react-renderer';
+import { FlowView, FlowViewProvider, ReactViewRegistry, type FlowViewProps } from './view-registry';
+
+const formView: ViewConfig = {
+  type: 'form',
+  title: 'Profile',
+  fields: [{ name: 'name', type: 'text', label: 'Name' }],
+  actions: [{ type: 'submit', label: 'Save', event: 'NEXT' }]
+};
+
+const DesignSystemForm = ({ nodeId, contextSlice, send }: FlowViewProps) => (
+  <button type="button" onClick={() => send({ type: 'NEXT', data: contextSlice })}>
+    Design system {nodeId}
+  </button>
+);
+
+describe('FlowView', () => {
+  it('should render the built-in renderers when no component is registered', () => {
+    const send = vi.fn();
+    render(
+      <FlowViewProvider registry={new ReactViewRegistry()}>
+        <FlowView flowId="profile" stepId="details" view={formView} context={{ name: 'Jane' }} send={send} />
+      </FlowViewProvider>
+    );
+
+    fireEvent.click(screen.getByText('Save'));
+    expect(send).toHaveBeenCalledWith({ type: 'NEXT', data: { name: 'Jane' } });
+  });
+
+  it('should override renderers per view type, and per step id first', () => {
+    const StepForm = () => <p>Step form</p>;
+    const registry = new ReactViewRegistry().registerView('form', DesignSystemForm).registerStep('payment', StepForm);
+    const send = vi.fn();
+
+    const { rerender } = render(
+      <FlowViewProvider registry={registry}>
+        <FlowView flowId="profile" stepId="details" view={formView} context={{ name: 'Jane' }} send={send} />
+      </FlowViewProvider>
+    );
+    expect(screen.queryByText('Save')).toBeNull();
+    fireEvent.click(screen.getByText('Design system details'));
+    expect(send).toHaveBeenCalledWith({ type: 'NEXT', data: { name: 'Jane' } });
+
+    rerender(
+      <FlowViewProvider registry={registry}>
+        <FlowView flowId="profile" stepId="payment" view={formView} context={{}} send={send} />
+      </FlowViewProvider>
+    );
+    expect(screen.getByText('Step form')).toBeInTheDocument();
+  });
+
+  it('should only re-render registered views when their context slice changes', () => {
+    const renders = vi.fn();
+    const Summary = ({ contextSlice }: FlowViewProps) => {
+      renders(contextSlice);
+      return <p>{String((contextSlice.user as { name?: string } | undefined)?.name)}</p>;
+    };
+    const registry = new ReactViewRegistry().registerView('display', Summary, { contextSlice: ['user.name'] });
+    const view: ViewConfig = { type: 'display', title: 'Summary' };
+    const renderFlowView = (context: Record<string, unknown>) => (
+      <FlowViewProvider registry={registry}>
+        <FlowView flowId="profile" stepId="summary" view={view} context={context} send={vi.fn()} />
+      </FlowViewProvider>
+    );
+
+    const { rerender } = render(renderFlowView({ user: { name: 'Jane', visits: 1 } }));
+    rerender(renderFlowView({ user: { name: 'Jane', visits: 2 } }));
+    expect(renders).toHaveBeenCalledTimes(1);
+    expect(renders).toHaveBeenCalledWith({ user: { name: 'Jane' } });
+
+    rerender(renderFlowView({ user: { name: 'John', visits: 2 } }));
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(screen.getByText('John')).toBeInTheDocument();
+  });
+});
+
+describe('createReactRenderer', () => {
+  const props = { flowId: 'profile', nodeId: 'details', contextSlice: { name: 'Jane' }, send: vi.fn() };
+
+  it('should mount the registered view of a module id in its slot', () => {
+    const slot = document.createElement('div');
+    slot.id = 'checkout-slot';
+    document.body.appendChild(slot);
+    const renderer = createReactRenderer(new ReactViewRegistry().registerStep('details', DesignSystemForm));
+
+    let instance: { unmount: () => void } | undefined;
+    act(() => {
+      instance = renderer.mount('details', 'checkout-slot', props);
+    });
+    expect(slot).toHaveTextContent('Design system details');
+
+    act(() => instance?.unmount());
+    expect(slot).toBeEmptyDOMElement();
+    slot.remove();
+  });
+
+  it('should reject unknown module ids and missing slots', () => {
+    const renderer = createReactRenderer(new ReactViewRegistry().registerView('form', DesignSystemForm));
+
+    expect(() => renderer.mount('display', undefined, props)).toThrow('Unknown moduleId: display');
+    expect(() => renderer.mount('form', 'missing-slot', props)).toThrow('Slot element not found: #missing-slot');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * View Registry
+ * Components replacing the built-in renderers, per view type or per step id
+ *
+ * `FlowView` renders the component registered for a step (a step takes precedence over
+ * its view type), or the built-in `ViewRenderer` when there is none. Registered components
+ * receive the renderer-core `ViewProps` and only re-render when their context slice
+ * changes: the values at the registered `contextSlice` paths, or the top-level values
+ * returned by a `contextSlice` selector (default: the whole context).
+ */
+
+import { createContext, memo, useCallback, useContext, useRef, type ComponentType, type ReactNode } from 'react';
+import { getByPath, setByPath, type ViewConfig } from '@xflows/core';
+import type { ViewContextSlice, ViewFactory, ViewProps, ViewRegistry } from '@xflows/renderer-core';
+import { asReactView } from './react-renderer';
+import { ViewRenderer, type ViewRendererProps } from './view-renderer';
+
+export interface FlowViewProps extends ViewProps {
+  // View of the step, when rendered by `FlowView`
+  view?: ViewConfig;
+}
+
+// Context paths, or a function selecting the slice from the context
+export type ContextSliceSelector = string[] | ((context: Record<string, unknown>) => ViewContextSlice);
+
+export interface ViewRegistration {
+  component: ComponentType<FlowViewProps>;
+  contextSlice?: ContextSliceSelector;
+}
+
+export type ViewRegistrationOptions = Omit<ViewRegistration, 'component'>;
+
+export class ReactViewRegistry implements ViewRegistry {
+  private views = new Map<string, ViewRegistration>();
+  private steps = new Map<string, ViewRegistration>();
+
+  /**
+   * Render every view of a type with a component
+   */
+  registerView(
+    type: ViewConfig['type'],
+    component: ComponentType<FlowViewProps>,
+    options: ViewRegistrationOptions = {}
+  ): this {
+    this.views.set(type, { ...options, component });
+    return this;
+  }
+
+  /**
+   * Render the view of a step with a component
+   */
+  registerStep(stepId: string, component: ComponentType<FlowViewProps>, options: ViewRegistrationOptions = {}): this {
+    this.steps.set(stepId, { ...options, component });
+    return this;
+  }
+
+  /**
+   * Registration rendering the view of a step, if any
+   */
+  lookup(stepId: string, type: ViewConfig['type']): ViewRegistration | undefined {
+    return this.steps.get(stepId) || this.views.get(type);
+  }
+
+  /**
+   * View factory of a step id or view type, for host renderers
+   */
+  resolve(moduleId: string): ViewFactory | undefined {
+    const registration = this.steps.get(moduleId) || this.views.get(moduleId);
+    return registration && asReactView(registration.component);
+  }
+}
+
+const FlowViewContext = createContext<ReactViewRegistry | null>(null);
+
+export function FlowViewProvider({ registry, children }: { registry: ReactViewRegistry; children: ReactNode }) {
+  return <FlowViewContext.Provider value={registry}>{children}</FlowViewContext.Provider>;
+}
+
+/**
+ * Registry of the closest `FlowViewProvider`
+ */
+export function useViewRegistry(): ReactViewRegistry | null {
+  return useContext(FlowViewContext);
+}
+
+export interface FlowViewComponentProps extends Pick<ViewRendererProps, 'components' | 'loadModule'> {
+  flowId: string;
+  stepId: string;
+  view: ViewConfig;
+  context: Record<string, unknown>;
+  send: ViewProps['send'];
+}
+
+/**
+ * Render the view of a step with its registered component or the built-in renderers
+ */
+export function FlowView({ flowId, stepId, view, context, send, ...rendererProps }: FlowViewComponentProps) {
+  const registry = useViewRegistry();
+
+  // Keep `send` stable so that a new callback does not re-render registered views
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const stableSend = useCallback((event: Record<string, unknown>) => sendRef.current(event), []);
+
+  const registration = registry?.lookup(stepId, view.type);
+  if (!registration) {
+    return (
+      <ViewRenderer
+        {...rendererProps}
+        view={view}
+        context={context}
+        onEvent={event => stableSend({ ...event })}
+        onNext={data => stableSend({ type: 'NEXT', data })}
+        onBack={() => stableSend({ type: 'BACK' })}
+        onError={data => stableSend({ type: 'ERROR', data })}
+        onCancel={() => stableSend({ type: 'CANCEL' })}
+      />
+    );
+  }
+
+  return (
+    <RegisteredView
+      registration={registration}
+      flowId={flowId}
+      nodeId={stepId}
+      view={view}
+      context={context}
+      send={stableSend}
+    />
+  );
+}
+
+interface RegisteredViewProps extends Omit<FlowViewProps, 'contextSlice'> {
+  registration: ViewRegistration;
+  context: Record<string, unknown>;
+}
+
+const RegisteredView = memo(
+  function RegisteredView({ registration, context, ...props }: RegisteredViewProps) {
+    const { component: Component, contextSlice } = registration;
+    return <Component {...props} contextSlice={selectSlice(contextSlice, context)} />;
+  },
+  (previous, next) =>
+    previous.registration === next.registration &&
+    previous.view === next.view &&
+    previous.flowId === next.flowId &&
+    previous.nodeId === next.nodeId &&
+    previous.send === next.send &&
+    isSameSlice(next.registration.contextSlice, previous.context, next.context)
+);
+
+function selectSlice(selector: ContextSliceSelector | undefined, context: Record<string, unknown>): ViewContextSlice {
+  if (!selector) {
+    return context;
+  }
+  if (Array.isArray(selector)) {
+    return selector.reduce(
+      (slice: ViewContextSlice, path) => setByPath(slice, path, getByPath(context, path)),
+      {}
+    );
+  }
+  return selector(context);
+}
+
+function isSameSlice(
+  selector: ContextSliceSelector | undefined,
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>
+): boolean {
+  if (previous === next) {
+    return true;
+  }
+  if (!selector) {
+    return false;
+  }
+  if (Array.isArray(selector)) {
+    return selector.every(path => Object.is(getByPath(previous, path), getByPath(next, path)));
+  }
+
+  const before = selector(previous);
+  const after = selector(next);
+  const keys = Object.keys(after);
+  return keys.length === Object.keys(before).length && keys.every(key => Object.is(before[key], after[key]));
+}
@@ -0,0 +1,176 @@
+/**
+ * ViewRenderer Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type { ViewConfig } from '@xflows/core';
+import { ComponentRegistry, type CustomComponentProps } from './component-registry';
+import { ViewRenderer, type ViewRendererProps } from './view-renderer';
+
+const renderView = (view: ViewConfig, props: Partial<ViewRendererProps> = {}) => {
+  const onEvent = vi.fn();
+  const onNext = vi.fn();
+  render(
+    <ViewRenderer
+      view={view}
+      context={{}}
+      onEvent={onEvent}
+      onNext={onNext}
+      onBack={vi.fn()}
+      onError={vi.fn()}
+      onCancel={vi.fn()}
+      {...props}
+    />
+  );
+  return { onEvent, onNext };
+};
+
+describe('ViewRenderer forms', () => {
+  const signupView: ViewConfig = {
+    type: 'form',
+    title: 'Sign up',
+    fields: [
+      { name: 'user.email', type: 'email', label: 'Email', required: true },
+      {
+        name: 'user.plan',
+        type: 'select',
+        label: 'Plan',
+        options: [
+          { value: 'free', label: 'Free' },
+          { value: 'pro', label: 'Pro' }
+        ]
+      },
+      { name: 'user.company', type: 'text', label: 'Company', visibleWhen: { '==': [{ var: 'user.plan' }, 'pro'] } }
+    ],
+    actions: [
+      { type: 'submit', label: 'Continue', event: 'NEXT' },
+      { type: 'button', label: 'Back', event: 'BACK' }
+    ]
+  };
+
+  it('should submit the values of the visible fields with a typed event', () => {
+    const { onEvent, onNext } = renderView(signupView, { context: { user: { email: 'jane@example.com' } } });
+
+    expect(screen.getByLabelText('Email')).toHaveValue('jane@example.com');
+    expect(screen.queryByLabelText('Company')).toBeNull();
+
+    fireEvent.change(screen.getByLabelText('Plan'), { target: { value: 'pro' } });
+    fireEvent.change(screen.getByLabelText('Company'), { target: { value: 'Acme' } });
+    fireEvent.click(screen.getByText('Continue'));
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'NEXT',
+      data: { user: { email: 'jane@example.com', plan: 'pro', company: 'Acme' } }
+    });
+
+    fireEvent.click(screen.getByText('Back'));
+    expect(onEvent).toHaveBeenLastCalledWith({ type: 'BACK' });
+    expect(onNext).not.toHaveBeenCalled();
+  });
+
+  it('should show the errors of the last rejected submission', () => {
+    renderView(signupView, {
+      context: {
+        fieldErrors: {
+          'user.email': [{ field: 'user.email', rule: 'required', message: 'Email is required' }],
+          $form: [{ field: '$form', rule: 'rule', message: 'Pro plans need a company' }]
+        }
+      }
+    });
+
+    expect(screen.getByText('Email is required')).toHaveClass('field-error');
+    expect(screen.getByLabelText('Email')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByText('Pro plans need a company')).toHaveClass('form-error');
+  });
+});
+
+describe('ViewRenderer decisions and components', () => {
+  it('should send the event and data of the chosen decision option', () => {
+    const { onEvent } = renderView({
+      type: 'decision',
+      title: 'How do you want to pay?',
+      options: [
+        { label: 'Card', event: 'PAY', data: { method: 'card' }, description: 'Visa or Mastercard' },
+        { label: 'Later', event: 'SKIP' }
+      ]
+    });
+
+    expect(screen.getByText('Visa or Mastercard')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Card'));
+    expect(onEvent).toHaveBeenCalledWith({ type: 'PAY', data: { method: 'card' } });
+    fireEvent.click(screen.getByText('Later'));
+    expect(onEvent).toHaveBeenLastCalledWith({ type: 'SKIP' });
+  });
+
+  it('should keep decision options sending the same event apart', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { onEvent } = renderView({
+      type: 'decision',
+      title: 'Choose a plan',
+      options: [
+        { label: 'Monthly', event: 'SELECT_PLAN', data: { billing: 'monthly' } },
+        { label: 'Yearly', event: 'SELECT_PLAN', data: { billing: 'yearly' } }
+      ]
+    });
+
+    fireEvent.click(screen.getByText('Yearly'));
+    expect(onEvent).toHaveBeenCalledWith({ type: 'SELECT_PLAN', data: { billing: 'yearly' } });
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should render registered custom components with their bound props', () => {
+    const components = new ComponentRegistry().register('SignaturePad', ({ label, onSigned }) => (
+      <button type="button" onClick={() => (onSigned as (data: unknown) => void)({ signed: true })}>
+        {String(label)}
+      </button>
+    ));
+    const { onEvent } = renderView(
+      { type: 'custom-component', componentName: 'SignaturePad', props: { label: 'Sign as {{context.name}}', onSigned: 'SIGNED' } },
+      { context: { name: 'Jane' }, components }
+    );
+
+    fireEvent.click(screen.getByText('Sign as Jane'));
+    expect(onEvent).toHaveBeenCalledWith({ type: 'SIGNED', data: { signed: true } });
+  });
+
+  it('should report custom components that are not registered', () => {
+    renderView({ type: 'custom-component', componentName: 'Missing' }, { components: new ComponentRegistry() });
+
+    expect(screen.getByText('Unknown component: Missing')).toBeInTheDocument();
+  });
+
+  it('should render federated modules once loaded, and the fallback while loading and on failure', async () => {
+    const loadModule = vi.fn(async () => ({ context }: CustomComponentProps) => <p>Quote for {String(context.name)}</p>);
+    renderView(
+      { type: 'federated-module', moduleUrl: 'https://cdn.example.com/quote.js', componentName: 'Quote' },
+      { context: { name: 'Jane' }, loadModule }
+    );
+    expect(await screen.findByText('Quote for Jane')).toBeInTheDocument();
+    expect(loadModule).toHaveBeenCalledWith(expect.objectContaining({ componentName: 'Quote' }));
+
+    const failing = vi.fn().mockRejectedValue(new Error('CDN unavailable'));
+    renderView(
+      {
+        type: 'federated-module',
+        moduleUrl: 'https://cdn.example.com/broken.js',
+        fallback: { type: 'display', title: 'Quotes are unavailable' }
+      },
+      { loadModule: failing }
+    );
+    expect(screen.getByText('Quotes are unavailable')).toBeInTheDocument();
+    await waitFor(() => expect(failing).toHaveBeenCalled());
+    expect(screen.getByText('Quotes are unavailable')).toBeInTheDocument();
+  });
+
+  it('should show the load error of federated modules without fallback', async () => {
+    renderView(
+      { type: 'federated-module', moduleUrl: 'https://cdn.example.com/missing.js' },
+      { loadModule: vi.fn().mockRejectedValue(new Error('Failed to load remote entry')) }
+    );
+
+    expect(screen.getByText('Loading...')).toBeInTheDocument();
+    expect(await screen.findByText('Failed to load remote entry')).toBeInTheDocument();
+  });
+});
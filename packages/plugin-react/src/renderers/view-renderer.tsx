@@ -3,31 +3,59 @@
  * Renders different view types based on semantic configuration
  */
 
-import type { ViewConfig } from '@xflows/core';
-
-interface FormField {
-  name: string;
-  type: string;
-  label: string;
-  required?: boolean;
-  placeholder?: string;
-}
+import { useEffect, useRef, useState } from 'react';
+import {
+  FIELD_ERRORS_PATH,
+  FORM_ERROR_KEY,
+  formValidator,
+  getByPath,
+  setByPath,
+  type DecisionOption,
+  type FormErrors,
+  type FormField,
+  type ResolvedFormField,
+  type ViewAction,
+  type ViewConfig
+} from '@xflows/core';
+import { bindViewProps, componentRegistry, type ComponentRegistry } from './component-registry';
+import { loadRemoteModule, useRemoteComponent, type ModuleLoader } from './module-loader';
 
 interface Action {
   label: string;
   event: string;
 }
 
+export interface ViewEvent {
+  type: string;
+  data?: unknown;
+}
+
 export interface ViewRendererProps {
   view: ViewConfig;
   context: Record<string, unknown>;
+  // Receives the events of form, decision and component views; the callbacks below serve the other views
+  onEvent: (event: ViewEvent) => void;
   onNext: (data?: unknown) => void;
   onBack: (data?: unknown) => void;
   onError: (data?: unknown) => void;
   onCancel: () => void;
+  // Components of `custom-component` views
+  components?: ComponentRegistry;
+  // Loads the components of `federated-module` views
+  loadModule?: ModuleLoader;
 }
 
-export function ViewRenderer({ view, onNext, onBack }: ViewRendererProps) {
+export function ViewRenderer(props: ViewRendererProps) {
+  const {
+    view,
+    context,
+    onEvent,
+    onNext,
+    onBack,
+    components = componentRegistry,
+    loadModule = loadRemoteModule
+  } = props;
+
   // Debug logging for view rendering
   if (process.env.NODE_ENV === 'test') {
     // biome-ignore lint/suspicious/noConsoleLog: <explanation>
@@ -38,9 +66,18 @@ export function ViewRenderer({ view, onNext, onBack }: ViewRendererProps) {
     });
   }
 
+  const sendViewEvent = (type: string, data?: unknown) => onEvent(data === undefined ? { type } : { type, data });
+
   switch (view.type) {
     case 'form':
-      return <FormRenderer view={view} onNext={onNext} onBack={onBack} />;
+      return (
+        <FormRenderer
+          view={view}
+          context={context}
+          errors={(context[FIELD_ERRORS_PATH] as FormErrors | undefined) || {}}
+          send={sendViewEvent}
+        />
+      );
     case 'display':
       return <DisplayRenderer view={view} onNext={onNext} onBack={onBack} />;
     case 'loading':
@@ -49,48 +86,74 @@ export function ViewRenderer({ view, onNext, onBack }: ViewRendererProps) {
       return <ErrorRenderer view={view} onNext={onNext} onBack={onBack} />;
     case 'success':
       return <SuccessRenderer view={view} onNext={onNext} onBack={onBack} />;
+    case 'decision':
+      return <DecisionRenderer view={view} send={sendViewEvent} />;
+    case 'custom-component': {
+      const Component = components.resolve(view);
+      if (!Component) {
+        return <div>Unknown component: {view.componentName || view.componentPath}</div>;
+      }
+      return <Component {...bindViewProps(view, context, sendViewEvent)} />;
+    }
+    case 'federated-module':
+      return <FederatedModuleRenderer {...props} loadModule={loadModule} send={sendViewEvent} />;
     default:
       return <div>Unknown view type: {view.type}</div>;
   }
 }
 
 // Basic renderers (simplified implementations)
-function FormRenderer({ view, onNext, onBack }: { 
+function FormRenderer({ view, context, errors, send }: { 
   view: ViewConfig; 
-  onNext: (data?: unknown) => void; 
-  onBack: (data?: unknown) => void; 
+  context: Record<string, unknown>;
+  // Errors of the last submission rejected by the flow
+  errors: FormErrors;
+  send: (type: string, data?: unknown) => void;
 }) {
+  // Form values by field name path, seeded from the latest context whenever other fields are shown
+  const [values, setValues] = useState(() => seedValues(view.fields, context));
+  const contextRef = useRef(context);
+  contextRef.current = context;
+  useEffect(() => {
+    setValues(seedValues(view.fields, contextRef.current));
+  }, [view.fields]);
+
+  const fields = formValidator.resolveFields(view, values, context).filter(field => field.visible);
+
+  // Values of the visible fields
+  const collect = () =>
+    fields.reduce(
+      (data: Record<string, unknown>, field) => setByPath(data, field.name, getByPath(values, field.name)),
+      {}
+    );
+
   return (
     <div className="form-renderer">
       <h2>{view.title}</h2>
       {view.subtitle && <p>{view.subtitle}</p>}
       <div className="form-fields">
-        {view.fields?.map((field: FormField) => (
+        {fields.map(field => (
           <div key={field.name} className="field">
             <label htmlFor={field.name}>{field.label}</label>
-            <input 
-              type={field.type} 
-              name={field.name}
-              id={field.name}
-              required={field.required}
-              placeholder={field.placeholder}
+            <FieldInput
+              field={field}
+              value={getByPath(values, field.name)}
+              invalid={Boolean(errors[field.name])}
+              onChange={value => setValues(current => setByPath(current, field.name, value))}
             />
+            {errors[field.name] && <p className="field-error">{errors[field.name][0].message}</p>}
           </div>
         ))}
       </div>
+      {errors[FORM_ERROR_KEY]?.map(error => (
+        <p key={error.message} className="form-error">{error.message}</p>
+      ))}
       <div className="form-actions">
-        {view.actions?.map((action: Action) => (
+        {view.actions?.map((action: ViewAction) => (
           <button 
             type="button"
             key={action.label}
-            onClick={() => {
-              if (action.event === 'GO_BACK' || action.event === 'BACK') {
-                onBack();
-              } else {
-                // Handle any other event by calling onNext with the event name
-                onNext(action.event);
-              }
-            }}
+            onClick={() => (action.type === 'submit' ? send(action.event, collect()) : send(action.event))}
           >
             {action.label}
           </button>
@@ -100,6 +163,191 @@ function FormRenderer({ view, onNext, onBack }: {
   );
 }
 
+/**
+ * Initial form values: the context value at each field's name path
+ */
+function seedValues(fields: FormField[] | undefined, context: Record<string, unknown>): Record<string, unknown> {
+  return (fields || []).reduce((values: Record<string, unknown>, field) => {
+    const value = getByPath(context, field.name);
+    return value === undefined ? values : setByPath(values, field.name, value);
+  }, {});
+}
+
+function FieldInput({ field, value, invalid, onChange }: {
+  field: ResolvedFormField;
+  value: unknown;
+  invalid: boolean;
+  onChange: (value: unknown) => void;
+}) {
+  const attributes = {
+    name: field.name,
+    id: field.name,
+    required: field.required,
+    disabled: field.disabled,
+    'aria-invalid': invalid || undefined
+  };
+  const text = value === undefined || value === null ? '' : String(value);
+
+  switch (field.type) {
+    case 'select':
+      return (
+        <select {...attributes} value={text} onChange={event => onChange(event.target.value)}>
+          <option value="">{field.placeholder || ''}</option>
+          {field.options?.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    case 'radio':
+      return (
+        <div role="radiogroup" id={field.name} aria-invalid={invalid || undefined}>
+          {field.options?.map(option => (
+            <label key={option.value}>
+              <input
+                type="radio"
+                name={field.name}
+                value={option.value}
+                checked={text === option.value}
+                required={field.required}
+                disabled={field.disabled}
+                onChange={() => onChange(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    case 'checkbox': {
+      if (!field.options) {
+        return <input type="checkbox" {...attributes} checked={value === true} onChange={event => onChange(event.target.checked)} />;
+      }
+      // Checkbox group: the values of the checked options
+      const selected = Array.isArray(value) ? value.map(String) : [];
+      return (
+        <fieldset id={field.name} aria-invalid={invalid || undefined}>
+          {field.options.map(option => (
+            <label key={option.value}>
+              <input
+                type="checkbox"
+                name={field.name}
+                value={option.value}
+                checked={selected.includes(option.value)}
+                disabled={field.disabled}
+                onChange={event =>
+                  onChange(
+                    event.target.checked
+                      ? [...selected, option.value]
+                      : selected.filter(item => item !== option.value)
+                  )
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+      );
+    }
+    case 'textarea':
+      return (
+        <textarea
+          {...attributes}
+          value={text}
+          rows={field.rows}
+          maxLength={field.maxLength}
+          placeholder={field.placeholder}
+          onChange={event => onChange(event.target.value)}
+        />
+      );
+    case 'file':
+      // File inputs cannot be controlled; the selected file is kept in the form values
+      return (
+        <input type="file" {...attributes} accept={field.accept} onChange={event => onChange(event.target.files?.[0])} />
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          {...attributes}
+          value={text}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          placeholder={field.placeholder}
+          onChange={event => onChange(event.target.value === '' ? undefined : Number(event.target.value))}
+        />
+      );
+    default:
+      // text, email and date (ISO `yyyy-mm-dd` strings)
+      return (
+        <input
+          type={field.type}
+          {...attributes}
+          value={text}
+          maxLength={field.maxLength}
+          placeholder={field.placeholder}
+          onChange={event => onChange(event.target.value)}
+        />
+      );
+  }
+}
+
+/**
+ * Decision view: one button per option (or action), each sending its event
+ */
+function DecisionRenderer({ view, send }: { view: ViewConfig; send: (type: string, data?: unknown) => void }) {
+  const options: DecisionOption[] =
+    view.options || (view.actions || []).map(action => ({ label: action.label, event: action.event }));
+
+  return (
+    <div className="decision-renderer">
+      <h2>{view.title}</h2>
+      {view.subtitle && <p>{view.subtitle}</p>}
+      {view.message && <p>{view.message}</p>}
+      <div className="decision-options">
+        {options.map((option, index) => (
+          // Several options may send the same event with different data
+          <button
+            type="button"
+            key={`${index}-${option.label}`}
+            className="decision-option"
+            onClick={() => send(option.event, option.data)}
+          >
+            <span>{option.label}</span>
+            {option.description && <small>{option.description}</small>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Federated module view: renders `fallback` (or a loading message) until the module is loaded,
+ * and again if it fails to load
+ */
+function FederatedModuleRenderer({
+  loadModule,
+  send,
+  ...props
+}: ViewRendererProps & { loadModule: ModuleLoader; send: (type: string, data?: unknown) => void }) {
+  const { view, context } = props;
+  const { component: Component, error } = useRemoteComponent(view, loadModule);
+
+  if (Component) {
+    return <Component {...bindViewProps(view, context, send)} />;
+  }
+  if (view.fallback) {
+    return <ViewRenderer {...props} loadModule={loadModule} view={view.fallback} />;
+  }
+  return error ? (
+    <div className="error-renderer">
+      <p>{error.message}</p>
+    </div>
+  ) : (
+    <LoadingRenderer view={{ type: 'loading', message: 'Loading...' }} />
+  );
+}
+
 function DisplayRenderer({ view, onNext, onBack }: { 
   view: ViewConfig; 
   onNext: (data?: unknown) => void; 
@@ -65,7 +65,7 @@ export abstract class GuardPluginImpl extends BasePluginImpl implements GuardPlu
     config: GuardPluginConfig, 
     context: Record<string, unknown>, 
     event: Record<string, unknown>
-  ): Promise<boolean>;
+  ): boolean | Promise<boolean>;
 }
 
 export abstract class UIComponentPluginImpl extends BasePluginImpl implements UIComponentPlugin {
@@ -83,6 +83,8 @@ export abstract class UIComponentPluginImpl extends BasePluginImpl implements UI
 
 export abstract class ToolPluginImpl extends BasePluginImpl implements ToolPlugin {
   public readonly type = 'tool' as const;
+  public inputSchema?: Record<string, unknown>;
+  public outputSchema?: Record<string, unknown>;
   
   constructor(id: string, name: string, version: string) {
     super(id, name, version, 'tool');
@@ -8,6 +8,8 @@ export * from './types';
 // Registry
 export * from './registry/plugin-registry';
 export * from './registry/plugin-manager';
+export * from './registry/plugin-errors';
+export * from './registry/dependency-graph';
 
 // Base classes
 export * from './base/plugin-base';
@@ -0,0 +1,66 @@
+/**
+ * Plugin Dependency Graph
+ * Parses plugin dependencies and orders plugin sets so that dependencies load first
+ *
+ * A dependency is a plugin id, optionally followed by a version range:
+ * `http-action` or `http-action@^1.2.0`.
+ */
+
+import type { PluginConfig } from '../types';
+
+export interface PluginDependency {
+  id: string;
+  // Version range the dependency must satisfy (default: any version)
+  range: string;
+}
+
+/**
+ * Parse a dependency declaration: `id` or `id@range`
+ */
+export function parseDependency(declaration: string): PluginDependency {
+  // Ids may be scoped (`@acme/audit`), so the range starts at the last `@` past the first character
+  const separator = declaration.lastIndexOf('@');
+  if (separator <= 0) {
+    return { id: declaration, range: '*' };
+  }
+  return { id: declaration.slice(0, separator), range: declaration.slice(separator + 1).trim() || '*' };
+}
+
+/**
+ * Order a plugin set so that every plugin comes after its dependencies, keeping the given
+ * order otherwise. Dependencies outside the set must be `available` (already loaded).
+ */
+export function orderByDependencies(configs: PluginConfig[], available: (pluginId: string) => boolean): PluginConfig[] {
+  const byId = new Map(configs.map(config => [config.id, config]));
+  const ordered: PluginConfig[] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (config: PluginConfig) => {
+    if (visited.has(config.id)) {
+      return;
+    }
+
+    const cycleStart = path.indexOf(config.id);
+    if (cycleStart !== -1) {
+      throw new Error(`Circular plugin dependency: ${[...path.slice(cycleStart), config.id].join(' -> ')}`);
+    }
+
+    path.push(config.id);
+    for (const { id } of (config.dependencies || []).map(parseDependency)) {
+      const dependency = byId.get(id);
+      if (dependency) {
+        visit(dependency);
+      } else if (!available(id)) {
+        throw new Error(`Dependency '${id}' not found for plugin '${config.id}'`);
+      }
+    }
+    path.pop();
+
+    visited.add(config.id);
+    ordered.push(config);
+  };
+
+  configs.forEach(visit);
+  return ordered;
+}
@@ -0,0 +1,23 @@
+/**
+ * Plugin Errors
+ * Errors raised while managing plugin lifecycles
+ */
+
+export interface PluginDestroyFailure {
+  pluginId: string;
+  error: unknown;
+}
+
+/**
+ * One or more plugins failed to destroy; they are unregistered nonetheless
+ */
+export class PluginDestroyError extends Error {
+  constructor(public failures: PluginDestroyFailure[]) {
+    super(
+      `Failed to destroy ${failures.length === 1 ? 'plugin' : 'plugins'} ${failures
+        .map(({ pluginId, error }) => `'${pluginId}' (${error instanceof Error ? error.message : String(error)})`)
+        .join(', ')}`
+    );
+    this.name = 'PluginDestroyError';
+  }
+}
@@ -5,7 +5,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DefaultPluginManager } from './plugin-manager';
 import { DefaultPluginRegistry } from './plugin-registry';
-import type { PluginConfig } from '../types';
+import type { PluginConfig, PluginType } from '../types';
+
+const createPlugin = (id: string, type: PluginType) => ({
+  id,
+  name: id,
+  version: '1.0.0',
+  type,
+  initialize: vi.fn().mockResolvedValue(undefined),
+  destroy: vi.fn().mockResolvedValue(undefined)
+});
 
 describe('DefaultPluginManager', () => {
   let manager: DefaultPluginManager;
@@ -29,7 +38,7 @@ describe('DefaultPluginManager', () => {
   });
 
   describe('loadPlugin', () => {
-    it('should throw error for unimplemented plugin creation', async () => {
+    it('should throw error when no factory or module can create the plugin', async () => {
       const config: PluginConfig = {
         id: 'test-plugin',
         name: 'Test Plugin',
@@ -38,7 +47,7 @@ describe('DefaultPluginManager', () => {
       };
 
       await expect(manager.loadPlugin(config)).rejects.toThrow(
-        "Plugin creation not implemented for 'test-plugin'. Plugins must be implemented separately."
+        "No plugin factory registered for 'test-plugin' (type 'actor') and no module to load it from"
       );
     });
 
@@ -87,6 +96,155 @@ describe('DefaultPluginManager', () => {
     });
   });
 
+  describe('plugin factories', () => {
+    it('should create plugins with the factory registered for their id, passing their options', async () => {
+      const factory = vi.fn((options: unknown) => ({ ...createPlugin('address-lookup', 'tool'), options }));
+      manager.registerFactory('address-lookup', factory);
+
+      const plugin = await manager.loadPlugin({
+        id: 'address-lookup',
+        name: 'Address Lookup',
+        version: '1.0.0',
+        type: 'tool',
+        config: { apiKey: 'secret' }
+      });
+
+      expect(factory).toHaveBeenCalledWith({ apiKey: 'secret' }, expect.objectContaining({ id: 'address-lookup' }));
+      expect(plugin.initialize).toHaveBeenCalled();
+      expect(registry.get('address-lookup')).toBe(plugin);
+    });
+
+    it('should fall back to the factory registered for the plugin type', async () => {
+      manager.registerFactory('guard', (_options, config) => createPlugin(config.id, 'guard'));
+
+      const plugin = await manager.loadPlugin({ id: 'age-check', name: 'Age Check', version: '1.0.0', type: 'guard' });
+
+      expect(plugin.id).toBe('age-check');
+      expect(manager.hasFactory('guard')).toBe(true);
+    });
+
+    it('should expect the exact version of a config, or a version in its range', async () => {
+      manager.registerFactory('guard', (_options, config) => ({ ...createPlugin(config.id, 'guard'), version: '1.2.0' }));
+
+      await expect(manager.loadPlugin({ id: 'age-check', name: 'Age Check', version: '1.x', type: 'guard' })).rejects.toThrow(
+        "Plugin 'age-check' has version 1.2.0, expected 1.x"
+      );
+      await expect(
+        manager.loadPlugin({ id: 'age-check', name: 'Age Check', version: '1.2.0', type: 'guard' })
+      ).resolves.toMatchObject({ version: '1.2.0' });
+      await expect(
+        manager.loadPlugin({ id: 'kyc-check', name: 'KYC Check', version: '1.0.0', versionRange: '^1.1.0', type: 'guard' })
+      ).resolves.toMatchObject({ version: '1.2.0' });
+      await expect(manager.loadFlowPlugins({ 'fraud-check': { type: 'guard', version: '^2.0.0' } })).rejects.toThrow(
+        "Plugin 'fraud-check' has version 1.2.0, expected ^2.0.0"
+      );
+    });
+
+    it('should import the factory of a module', async () => {
+      const source = "export const createPlugin = (options, config) => ({ id: config.id, name: config.name, version: '2.0.0', type: config.type, options, initialize: async () => {}, destroy: async () => {} });";
+
+      const plugin = await manager.loadPlugin({
+        id: 'premium-calculator',
+        name: 'Premium Calculator',
+        version: '2.0.0',
+        type: 'tool',
+        module: `data:text/javascript,${encodeURIComponent(source)}`,
+        config: { currency: 'EUR' }
+      });
+
+      expect(plugin).toMatchObject({ id: 'premium-calculator', version: '2.0.0', options: { currency: 'EUR' } });
+    });
+
+    it('should load the plugins a flow declares', async () => {
+      manager.registerFactory('action', (options, config) => ({ ...createPlugin(config.id, 'action'), options }));
+
+      const plugins = await manager.loadFlowPlugins({
+        analytics: { type: 'action', config: { endpoint: '/track' } },
+        audit: { type: 'action', name: 'Audit Log' }
+      });
+
+      expect(plugins.map(plugin => plugin.id)).toEqual(['analytics', 'audit']);
+      expect(plugins[0]).toMatchObject({ options: { endpoint: '/track' } });
+    });
+  });
+
+  describe('dependency graph', () => {
+    const config = (id: string, dependencies: string[] = [], version = '1.0.0'): PluginConfig => ({
+      id,
+      name: id,
+      version,
+      type: 'action',
+      dependencies
+    });
+
+    beforeEach(() => {
+      manager.registerFactory('action', (_options, pluginConfig) => ({
+        ...createPlugin(pluginConfig.id, 'action'),
+        version: pluginConfig.version === '*' ? '1.0.0' : pluginConfig.version
+      }));
+    });
+
+    it('should load a plugin set after the plugins it depends on', async () => {
+      const plugins = await manager.loadPlugins([
+        config('audit', ['http', 'auth']),
+        config('auth', ['http']),
+        config('http'),
+        config('metrics')
+      ]);
+
+      expect(plugins.map(plugin => plugin.id)).toEqual(['http', 'auth', 'audit', 'metrics']);
+    });
+
+    it('should report dependency cycles before loading anything', async () => {
+      await expect(
+        manager.loadPlugins([config('audit', ['auth']), config('auth', ['session']), config('session', ['audit'])])
+      ).rejects.toThrow('Circular plugin dependency: audit -> auth -> session -> audit');
+      expect(registry.getPluginCount()).toBe(0);
+    });
+
+    it('should check dependency versions against their range', async () => {
+      await manager.loadPlugin(config('http', [], '1.4.0'));
+
+      await expect(manager.loadPlugin(config('audit', ['http@^2.0.0']))).rejects.toThrow(
+        "Plugin 'audit' requires 'http@^2.0.0', but version 1.4.0 is loaded"
+      );
+      await expect(manager.loadPlugin(config('auth', ['http@>=1.2.0 <2.0.0']))).resolves.toMatchObject({ id: 'auth' });
+    });
+
+    it('should refuse to unload plugins others depend on, unless cascading', async () => {
+      const [http, auth, audit] = await manager.loadPlugins([
+        config('http'),
+        config('auth', ['http']),
+        config('audit', ['auth', 'http'])
+      ]);
+
+      await expect(manager.unloadPlugin('http')).rejects.toThrow(
+        "Cannot unload plugin 'http': auth, audit depend on it"
+      );
+
+      const destroyed: string[] = [];
+      for (const plugin of [http, auth, audit]) {
+        vi.mocked(plugin.destroy).mockImplementation(async () => {
+          destroyed.push(plugin.id);
+        });
+      }
+      await manager.unloadPlugin('http', { cascade: true });
+
+      expect(destroyed).toEqual(['audit', 'auth', 'http']);
+      expect(registry.getPluginCount()).toBe(0);
+    });
+
+    it('should unload every plugin of a cascade and report the failed destroys', async () => {
+      const [, auth] = await manager.loadPlugins([config('http'), config('auth', ['http']), config('audit', ['http'])]);
+      vi.mocked(auth.destroy).mockRejectedValue(new Error('session store unavailable'));
+
+      await expect(manager.unloadPlugin('http', { cascade: true })).rejects.toThrow(
+        "Failed to destroy plugin 'auth' (session store unavailable)"
+      );
+      expect(registry.getPluginCount()).toBe(0);
+    });
+  });
+
   describe('unloadPlugin', () => {
     it('should throw error for non-existent plugin', async () => {
       await expect(manager.unloadPlugin('non-existent')).rejects.toThrow(
@@ -199,7 +357,8 @@ describe('DefaultPluginManager', () => {
 
   describe('private methods', () => {
     describe('createPluginInstance', () => {
-      it('should throw error indicating plugins must be implemented', async () => {
+      it('should throw error when the factory creates another plugin', async () => {
+        manager.registerFactory('test-plugin', () => createPlugin('other-plugin', 'actor'));
         const config: PluginConfig = {
           id: 'test-plugin',
           name: 'Test Plugin',
@@ -208,7 +367,7 @@ describe('DefaultPluginManager', () => {
         };
 
         await expect((manager as any).createPluginInstance(config)).rejects.toThrow(
-          "Plugin creation not implemented for 'test-plugin'. Plugins must be implemented separately."
+          "Plugin factory for 'test-plugin' created plugin 'other-plugin'"
         );
       });
     });
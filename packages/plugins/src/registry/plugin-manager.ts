@@ -1,18 +1,72 @@
 /**
  * Plugin Manager
  * Main orchestrator for plugin lifecycle management
+ *
+ * Plugins are created by factories registered by plugin id or type, or by the factory a
+ * module exports (`createPlugin` or its default export), imported from `config.module`.
+ * Factories receive the options of the plugin (`config.config`), so a flow can declare the
+ * plugins it needs in `FlowConfig.plugins` and have them created with `loadFlowPlugins`.
+ *
+ * Plugin sets are loaded in dependency order, and every dependency must be loaded, in a
+ * version satisfying its range, before its dependents. Plugins others depend on are only
+ * unloaded with `cascade`, which unloads their dependents first.
  */
 
-import type { BasePlugin, PluginConfig, PluginManager, PluginRegistry, PluginType } from '../types';
+import type {
+  BasePlugin,
+  FlowPluginDeclaration,
+  PluginConfig,
+  PluginFactory,
+  PluginManager,
+  PluginRegistry,
+  PluginType,
+  UnloadPluginOptions
+} from '../types';
 import { DefaultPluginRegistry } from '../registry/plugin-registry';
+import { compareVersions, satisfiesRange } from '../utils/version';
+import { orderByDependencies, parseDependency } from './dependency-graph';
+import { PluginDestroyError, type PluginDestroyFailure } from './plugin-errors';
 
 export class DefaultPluginManager implements PluginManager {
   public registry: PluginRegistry;
+  private factories = new Map<string, PluginFactory>();
+  // Configurations of the loaded plugins, for their dependencies
+  private configs = new Map<string, PluginConfig>();
 
   constructor(registry?: PluginRegistry) {
     this.registry = registry || new DefaultPluginRegistry();
   }
 
+  /**
+   * Register a factory creating plugins, keyed by plugin id or plugin type
+   */
+  registerFactory(key: string, factory: PluginFactory): this {
+    this.factories.set(key, factory);
+    return this;
+  }
+
+  hasFactory(key: string): boolean {
+    return this.factories.has(key);
+  }
+
+  /**
+   * Load the plugins a flow declares in `FlowConfig.plugins`
+   */
+  async loadFlowPlugins(plugins: Record<string, FlowPluginDeclaration> = {}): Promise<BasePlugin[]> {
+    return this.loadPlugins(Object.entries(plugins).map(([id, declaration]) => toPluginConfig(id, declaration)));
+  }
+
+  /**
+   * Load a set of plugins, dependencies first; returns the plugins in the order they were loaded
+   */
+  async loadPlugins(configs: PluginConfig[]): Promise<BasePlugin[]> {
+    const loaded: BasePlugin[] = [];
+    for (const config of orderByDependencies(configs, id => this.registry.isRegistered(id))) {
+      loaded.push(await this.loadPlugin(config));
+    }
+    return loaded;
+  }
+
   async loadPlugin(config: PluginConfig): Promise<BasePlugin> {
     // Check if plugin is already loaded
     if (this.registry.isRegistered(config.id)) {
@@ -20,11 +74,15 @@ export class DefaultPluginManager implements PluginManager {
     }
 
     // Check dependencies
-    if (config.dependencies) {
-      for (const depId of config.dependencies) {
-        if (!this.registry.isRegistered(depId)) {
-          throw new Error(`Dependency '${depId}' not found for plugin '${config.id}'`);
-        }
+    for (const { id, range } of (config.dependencies || []).map(parseDependency)) {
+      const dependency = this.registry.get(id);
+      if (!dependency) {
+        throw new Error(`Dependency '${id}' not found for plugin '${config.id}'`);
+      }
+      if (!satisfiesRange(dependency.version, range)) {
+        throw new Error(
+          `Plugin '${config.id}' requires '${id}@${range}', but version ${dependency.version} is loaded`
+        );
       }
     }
 
@@ -36,11 +94,16 @@ export class DefaultPluginManager implements PluginManager {
     
     // Register plugin
     this.registry.register(plugin);
+    this.configs.set(config.id, config);
     
     return plugin;
   }
 
-  async unloadPlugin(pluginId: string): Promise<void> {
+  /**
+   * Unload a plugin; with `cascade`, the plugins depending on it are unloaded first.
+   * Every plugin is unloaded even when destroying one fails, then the failures are thrown.
+   */
+  async unloadPlugin(pluginId: string, options: UnloadPluginOptions = {}): Promise<void> {
     const plugin = this.registry.get(pluginId);
     if (!plugin) {
       throw new Error(`Plugin '${pluginId}' not found`);
@@ -48,37 +111,118 @@ export class DefaultPluginManager implements PluginManager {
 
     // Check if other plugins depend on this one
     const dependents = this.findDependents(pluginId);
-    if (dependents.length > 0) {
+    if (dependents.length > 0 && !options.cascade) {
       throw new Error(`Cannot unload plugin '${pluginId}': ${dependents.join(', ')} depend on it`);
     }
 
-    // Unregister plugin
-    this.registry.unregister(pluginId);
+    // Unregister dependents before the plugins they depend on
+    const failures: PluginDestroyFailure[] = [];
+    for (const id of this.unloadOrder(pluginId)) {
+      this.configs.delete(id);
+      try {
+        await this.registry.unregister(id);
+      } catch (error) {
+        failures.push(...(error instanceof PluginDestroyError ? error.failures : [{ pluginId: id, error }]));
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new PluginDestroyError(failures);
+    }
   }
 
   getPlugin(pluginId: string): BasePlugin | undefined {
     return this.registry.get(pluginId);
   }
 
+  getPlugins(): BasePlugin[] {
+    return this.registry.getAll();
+  }
+
   getPluginsByType(type: PluginType): BasePlugin[] {
     return this.registry.getAll(type);
   }
 
   private async createPluginInstance(config: PluginConfig): Promise<BasePlugin> {
-    // This is a placeholder - in real implementation, this would dynamically load plugins
-    // For now, we'll throw an error indicating plugins need to be implemented
-    throw new Error(`Plugin creation not implemented for '${config.id}'. Plugins must be implemented separately.`);
+    const factory =
+      this.factories.get(config.factory || config.id) ||
+      this.factories.get(config.type) ||
+      (config.module ? await this.importFactory(config) : undefined);
+
+    if (!factory) {
+      throw new Error(
+        `No plugin factory registered for '${config.id}' (type '${config.type}') and no module to load it from`
+      );
+    }
+
+    const plugin = await factory(config.config, config);
+    if (plugin.id !== config.id) {
+      throw new Error(`Plugin factory for '${config.id}' created plugin '${plugin.id}'`);
+    }
+    if (plugin.type !== config.type) {
+      throw new Error(`Plugin '${config.id}' is of type '${plugin.type}', expected '${config.type}'`);
+    }
+    const matches =
+      config.versionRange === undefined
+        ? compareVersions(plugin.version, config.version) === 0
+        : satisfiesRange(plugin.version, config.versionRange);
+    if (!matches) {
+      throw new Error(`Plugin '${config.id}' has version ${plugin.version}, expected ${config.versionRange ?? config.version}`);
+    }
+    return plugin;
   }
 
-  private findDependents(_pluginId: string): string[] {
-    const dependents: string[] = [];
-    const allPlugins = this.registry.getAll();
-    
-    for (const _plugin of allPlugins) {
-      // This would check plugin dependencies in real implementation
-      // For now, return empty array
+  /**
+   * Import the factory exported by a plugin module
+   */
+  private async importFactory(config: PluginConfig): Promise<PluginFactory> {
+    let module: Record<string, unknown>;
+    try {
+      module = await import(/* @vite-ignore */ /* webpackIgnore: true */ config.module as string);
+    } catch (error) {
+      throw new Error(
+        `Failed to load plugin '${config.id}' from '${config.module}': ${error instanceof Error ? error.message : String(error)}`
+      );
     }
-    
-    return dependents;
+
+    const factory = module.createPlugin ?? module.default;
+    if (typeof factory !== 'function') {
+      throw new Error(`Module '${config.module}' does not export a plugin factory for '${config.id}'`);
+    }
+    return factory as PluginFactory;
+  }
+
+  /**
+   * Ids of the loaded plugins depending directly on a plugin
+   */
+  private findDependents(pluginId: string): string[] {
+    return this.registry
+      .getAll()
+      .filter(plugin =>
+        (this.configs.get(plugin.id)?.dependencies || []).some(dependency => parseDependency(dependency).id === pluginId)
+      )
+      .map(plugin => plugin.id);
   }
+
+  /**
+   * A plugin and, transitively, its dependents, every plugin after the plugins depending on it
+   */
+  private unloadOrder(pluginId: string, order: string[] = []): string[] {
+    for (const dependent of this.findDependents(pluginId)) {
+      if (!order.includes(dependent)) {
+        this.unloadOrder(dependent, order);
+      }
+    }
+    if (!order.includes(pluginId)) {
+      order.push(pluginId);
+    }
+    return order;
+  }
+}
+
+/**
+ * Plugin configuration for a flow declaration, whose `version` is a range
+ */
+function toPluginConfig(id: string, { version = '*', ...declaration }: FlowPluginDeclaration): PluginConfig {
+  return { ...declaration, id, name: declaration.name || id, version, versionRange: version };
 }
@@ -207,6 +207,25 @@ describe('DefaultPluginRegistry', () => {
       expect(() => registry.clear()).not.toThrow();
       expect(registry.getPluginCount()).toBe(0);
     });
+
+    it('should await every destroy and report the failures together', async () => {
+      const plugin1 = new MockPlugin('plugin-1', 'Plugin 1', '1.0.0', 'actor');
+      const plugin2 = new MockPlugin('plugin-2', 'Plugin 2', '1.0.0', 'action');
+      const plugin3 = new MockPlugin('plugin-3', 'Plugin 3', '1.0.0', 'guard');
+      vi.spyOn(plugin1, 'destroy').mockRejectedValue(new Error('socket closed'));
+      const destroySpy2 = vi.spyOn(plugin2, 'destroy');
+      vi.spyOn(plugin3, 'destroy').mockRejectedValue(new Error('timeout'));
+
+      registry.register(plugin1);
+      registry.register(plugin2);
+      registry.register(plugin3);
+
+      await expect(registry.clear()).rejects.toThrow(
+        "Failed to destroy plugins 'plugin-1' (socket closed), 'plugin-3' (timeout)"
+      );
+      expect(destroySpy2).toHaveBeenCalled();
+      expect(registry.getPluginCount()).toBe(0);
+    });
   });
 
   describe('integration scenarios', () => {
@@ -1,9 +1,13 @@
 /**
  * Plugin Registry
  * Manages plugin registration and retrieval
+ *
+ * Plugins are removed as soon as they are unregistered, then destroyed; failures to
+ * destroy are collected in a `PluginDestroyError`.
  */
 
 import type { BasePlugin, PluginRegistry, PluginType } from '../types';
+import { PluginDestroyError } from './plugin-errors';
 
 export class DefaultPluginRegistry implements PluginRegistry {
   private plugins: Map<string, BasePlugin> = new Map();
@@ -15,11 +19,11 @@ export class DefaultPluginRegistry implements PluginRegistry {
     this.plugins.set(plugin.id, plugin);
   }
 
-  unregister(pluginId: string): void {
+  async unregister(pluginId: string): Promise<void> {
     const plugin = this.plugins.get(pluginId);
     if (plugin) {
-      plugin.destroy();
       this.plugins.delete(pluginId);
+      await destroyPlugins([plugin]);
     }
   }
 
@@ -43,10 +47,22 @@ export class DefaultPluginRegistry implements PluginRegistry {
     return this.plugins.size;
   }
 
-  clear(): void {
-    for (const plugin of this.plugins.values()) {
-      plugin.destroy();
-    }
+  async clear(): Promise<void> {
+    const plugins = Array.from(this.plugins.values());
     this.plugins.clear();
+    await destroyPlugins(plugins);
+  }
+}
+
+/**
+ * Destroy plugins concurrently, throwing once every destroy has settled
+ */
+async function destroyPlugins(plugins: BasePlugin[]): Promise<void> {
+  const results = await Promise.allSettled(plugins.map(async plugin => plugin.destroy()));
+  const failures = results.flatMap((result, index) =>
+    result.status === 'rejected' ? [{ pluginId: plugins[index].id, error: result.reason }] : []
+  );
+  if (failures.length > 0) {
+    throw new PluginDestroyError(failures);
   }
 }
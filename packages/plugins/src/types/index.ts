@@ -3,18 +3,52 @@
  * Core interfaces for the plugin architecture
  */
 
+import type { FlowLifecycleEvent, PluginLifecycle } from '@xflows/core';
+
+// Lifecycle callbacks are dispatched by the orchestrator the plugin manager is used with
+export type { FlowLifecycleEvent, PluginLifecycle };
+
 export interface PluginConfig {
   id: string;
   name: string;
+  // Exact version the created plugin must have, unless `versionRange` is set
   version: string;
+  // Range the created plugin's version must satisfy instead, e.g. `^1.2.0`
+  versionRange?: string;
   description?: string;
   type: PluginType;
+  // Plugin ids, optionally with a version range the plugin must satisfy: `http-action@^1.2.0`
   dependencies?: string[];
+  // Key of the registered factory creating the plugin (default: the plugin id, then its type)
+  factory?: string;
+  // Module specifier imported when no factory is registered; its `createPlugin` or default export is the factory
+  module?: string;
+  // Options passed to the factory, e.g. the `config` a flow declares for the plugin
+  config?: unknown;
+}
+
+/**
+ * Creates a plugin instance from its options and configuration
+ */
+export type PluginFactory = (options: unknown, config: PluginConfig) => BasePlugin | Promise<BasePlugin>;
+
+/**
+ * Plugin as a flow declares it in `FlowConfig.plugins`, keyed by plugin id
+ */
+export interface FlowPluginDeclaration {
+  type: PluginType;
+  name?: string;
+  // Range the loaded plugin's version must satisfy (default: any version)
+  version?: string;
+  dependencies?: string[];
+  factory?: string;
+  module?: string;
+  config?: unknown;
 }
 
 export type PluginType = 'actor' | 'action' | 'guard' | 'ui-component' | 'tool';
 
-export interface BasePlugin {
+export interface BasePlugin extends PluginLifecycle {
   id: string;
   name: string;
   version: string;
@@ -35,7 +69,12 @@ export interface ActionPlugin extends BasePlugin {
 
 export interface GuardPlugin extends BasePlugin {
   type: 'guard';
-  evaluate(config: GuardPluginConfig, context: Record<string, unknown>, event: Record<string, unknown>): Promise<boolean>;
+  // Flow guards evaluate synchronously: guard plugins used by flows must return a boolean
+  evaluate(
+    config: GuardPluginConfig,
+    context: Record<string, unknown>,
+    event: Record<string, unknown>
+  ): boolean | Promise<boolean>;
 }
 
 export interface UIComponentPlugin extends BasePlugin {
@@ -45,6 +84,10 @@ export interface UIComponentPlugin extends BasePlugin {
 
 export interface ToolPlugin extends BasePlugin {
   type: 'tool';
+  // JSON Schemas the input and the result are checked against when flows call the tool
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  // `input` is the resolved parameters, also passed as `config.parameters`
   execute(config: ToolPluginConfig, input: unknown): Promise<unknown>;
 }
 
@@ -81,16 +124,23 @@ export interface ToolPluginConfig {
 
 export interface PluginRegistry {
   register(plugin: BasePlugin): void;
-  unregister(pluginId: string): void;
+  unregister(pluginId: string): Promise<void>;
   get(pluginId: string): BasePlugin | undefined;
   getAll(type?: PluginType): BasePlugin[];
   isRegistered(pluginId: string): boolean;
 }
 
+export interface UnloadPluginOptions {
+  // Unload the plugins depending on the plugin first, instead of refusing to unload it
+  cascade?: boolean;
+}
+
 export interface PluginManager {
   registry: PluginRegistry;
   loadPlugin(config: PluginConfig): Promise<BasePlugin>;
-  unloadPlugin(pluginId: string): Promise<void>;
+  loadPlugins(configs: PluginConfig[]): Promise<BasePlugin[]>;
+  unloadPlugin(pluginId: string, options?: UnloadPluginOptions): Promise<void>;
   getPlugin(pluginId: string): BasePlugin | undefined;
+  getPlugins(): BasePlugin[];
   getPluginsByType(type: PluginType): BasePlugin[];
 }